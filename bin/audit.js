@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+
+// 校验审计日志的哈希链
+import '../build/auditCli.js';
@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+
+// 管理加密密钥库中的账户
+import '../build/keystoreCli.js';
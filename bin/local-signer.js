@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+
+// 启动本地签名服务（远程签名协议的测试实现）
+import '../build/localSigner.js';
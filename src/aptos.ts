@@ -1,14 +1,71 @@
 import { aptos } from "@moveflow/aptos-sdk";
 import { Stream } from "@moveflow/aptos-sdk";
-import { getConfig, getTransactionExecutorConfig } from "./config.js";
+import {
+    getConfig,
+    getTransactionExecutorConfig,
+    getPendingTransactionStoreConfig,
+    getSponsorConfig,
+    getKeystoreConfig,
+    getSpendingPolicyConfig,
+    getApprovalConfig,
+    getAuditLogConfig,
+    getIdempotencyConfig,
+    getNameResolverConfig,
+    getFullnodeResilienceConfig,
+    isCapabilityAllowed
+} from "./config.js";
 import { TransactionSigningService } from "./services/TransactionSigningService.js";
 import { ClientProvidedSigningService } from "./services/ClientProvidedSigningService.js";
+import { RemoteSigningService } from "./services/RemoteSigningService.js";
+import { PendingTransactionStore, createPendingTransactionStore } from "./services/PendingTransactionStore.js";
+import { transactionProxyService } from "./services/TransactionProxyService.js";
+import { SponsorshipBudget } from "./services/SponsorshipBudget.js";
+import { Keystore, parseEd25519PrivateKey } from "./services/Keystore.js";
+import { policyEngine } from "./services/PolicyEngine.js";
+import { ApprovalService } from "./services/ApprovalService.js";
+import { AuditLog } from "./services/AuditLog.js";
+import { IdempotencyStore } from "./services/IdempotencyStore.js";
+import { SequenceNumberManager } from "./services/SequenceNumberManager.js";
+import { NameResolver, createNameResolver } from "./services/NameResolver.js";
+import { FullnodePool, FullnodeProxy } from "./services/FullnodeFailover.js";
 
 let aptosClient: InstanceType<typeof aptos.Aptos> | null = null;
 let streamInstance: Stream | null = null;
+// 按账户地址缓存的Stream实例，用于指定sender的调用
+const streamInstances = new Map<string, Stream>();
 let signingService: TransactionSigningService | null = null;
+let pendingTransactionStore: PendingTransactionStore | null = null;
 // 用于存储可能的签名账户
 let signerAccount: aptos.Account | null = null;
+// 代付gas的账户
+let sponsorAccount: aptos.Account | null = null;
+// 远程签名服务对应的账户地址
+let remoteSignerAddress: aptos.AccountAddress | null = null;
+// 从加密密钥库解锁的账户（按名称）
+let keystoreAccounts = new Map<string, aptos.Account>();
+// 服务器签名前的人工确认
+let approvalService: ApprovalService | null = null;
+// 写入工具调用的审计日志
+let auditLog: AuditLog | null = null;
+// 按幂等键记住的写入工具调用结果
+let idempotencyStore: IdempotencyStore | null = null;
+// 服务器签名交易的按账户提交队列和本地序列号分配
+let sequenceNumberManager: SequenceNumberManager | null = null;
+// 接收方名称（.apt）解析和地址反查
+let nameResolver: NameResolver | null = null;
+// 全节点本地转发及其地址，Aptos客户端和Stream都通过它访问全节点
+let fullnodeProxy: FullnodeProxy | null = null;
+let nodeUrl: string | null = null;
+
+/**
+ * Create an account from a hex Ed25519 private key
+ * Accepts an optional "ed25519-priv-" prefix and "0x"
+ */
+function createAccountFromPrivateKey(privateKey: string): aptos.Account {
+    return aptos.Account.fromPrivateKey({
+        privateKey: parseEd25519PrivateKey(privateKey)
+    });
+}
 
 /**
  * Initialize the Aptos client and Stream instance
@@ -17,10 +74,16 @@ export async function initAptos(): Promise<void> {
     const config = getConfig();
 
     try {
+        // 通过本地转发访问全节点，重试、退避、熔断和多节点切换对Aptos客户端和Stream同样生效
+        await fullnodeProxy?.stop();
+        fullnodeProxy = new FullnodeProxy(new FullnodePool({ urls: config.aptosNodeUrls, ...getFullnodeResilienceConfig() }));
+        const proxyUrl = await fullnodeProxy.start();
+        nodeUrl = proxyUrl;
+
         // 创建Aptos配置
         const aptosConfig = new aptos.AptosConfig({
             network: config.aptosNetwork as aptos.Network,
-            fullnode: config.aptosNodeUrl
+            fullnode: proxyUrl
         });
 
         // 初始化Aptos客户端
@@ -31,36 +94,134 @@ export async function initAptos(): Promise<void> {
         // 如果配置了私钥，创建一个签名账户
         if (txConfig.privateKey) {
             try {
-                let rawKey = txConfig.privateKey.trim();
+                signerAccount = createAccountFromPrivateKey(txConfig.privateKey);
+                console.error("✅ Created signer account from private key");
+            } catch (error) {
+                console.error("❌ Failed to create signer account:", error);
+            }
+        }
 
-                // Remove known prefix and 0x if present
-                if (rawKey.startsWith('ed25519-priv-')) {
-                    rawKey = rawKey.replace('ed25519-priv-', '');
-                }
+        // 如果配置了代付私钥，创建代付账户（用于客户端签名交易的gas代付）
+        const sponsorConfig = getSponsorConfig();
+        if (sponsorConfig.privateKey && isCapabilityAllowed('sign')) {
+            try {
+                sponsorAccount = createAccountFromPrivateKey(sponsorConfig.privateKey);
+                console.error(`✅ Sponsoring client-signed transactions from ${sponsorAccount.accountAddress.toString()}`);
+            } catch (error) {
+                console.error("❌ Failed to create sponsor account:", error);
+            }
+        }
 
-                if (rawKey.startsWith('0x')) {
-                    rawKey = rawKey.slice(2);
+        // 解锁加密密钥库中的账户，工具可通过sender参数选择签名账户
+        const keystoreConfig = getKeystoreConfig();
+        if (keystoreConfig.passphrase && !txConfig.readOnlyMode) {
+            try {
+                const keystore = new Keystore(keystoreConfig.filePath);
+                await keystore.load();
+                const { accounts, failed } = keystore.unlockAll(keystoreConfig.passphrase);
+                keystoreAccounts = accounts;
+                console.error(`✅ Unlocked ${keystoreAccounts.size} keystore account(s)`);
+                // 口令不匹配的账户被跳过，其余账户仍可使用
+                for (const { name, error } of failed) {
+                    console.error(`⚠️ Skipped keystore account '${name}': ${error}`);
                 }
 
-                if (rawKey.length !== 64) {
-                    throw new Error(`Private key must be 32 bytes (64 hex characters), got ${rawKey.length} characters`);
+                // 未配置APTOS_PRIVATE_KEY时，默认账户作为签名账户
+                if (!signerAccount && keystoreConfig.defaultAccount) {
+                    const defaultAccount = keystoreAccounts.get(keystoreConfig.defaultAccount);
+                    if (!defaultAccount) {
+                        throw new Error(`Default account '${keystoreConfig.defaultAccount}' not found in keystore`);
+                    }
+                    signerAccount = defaultAccount;
                 }
+            } catch (error) {
+                console.error("❌ Failed to unlock keystore:", error);
+            }
+        }
 
-                const privateKeyBytes = Uint8Array.from(Buffer.from(rawKey, 'hex'));
-                const privateKeyObj = new aptos.Ed25519PrivateKey(privateKeyBytes);
+        // 加载支出策略；策略文件无效时初始化失败，避免在没有限制的情况下签名
+        const policyConfig = getSpendingPolicyConfig();
+        if (policyConfig.policyPath) {
+            await policyEngine.load(policyConfig.policyPath, policyConfig.ledgerPath);
+            console.error(`✅ Enforcing spending policy from ${policyConfig.policyPath}`);
+        }
 
-                signerAccount = aptos.Account.fromPrivateKey({
-                    privateKey: privateKeyObj
-                });
+        approvalService = new ApprovalService(getApprovalConfig());
 
-                console.log("✅ Created signer account from private key");
-            } catch (error) {
-                console.error("❌ Failed to create signer account:", error);
+        // 接续已有审计日志的哈希链
+        auditLog = new AuditLog(getAuditLogConfig().filePath);
+        try {
+            await auditLog.load();
+        } catch (error) {
+            console.error("❌ Failed to load audit log:", error);
+        }
+
+        // 加载幂等键记录，重启前的调用在窗口期内重试时仍返回原结果
+        const idempotencyConfig = getIdempotencyConfig();
+        idempotencyStore = new IdempotencyStore(idempotencyConfig.filePath, idempotencyConfig.windowSeconds * 1000);
+        try {
+            await idempotencyStore.load();
+        } catch (error) {
+            console.error("❌ Failed to load idempotency keys:", error);
+        }
+
+        // 加载持久化的待签名交易，使重启前准备的交易仍可签名提交
+        const storeConfig = getPendingTransactionStoreConfig();
+        pendingTransactionStore = createPendingTransactionStore(storeConfig);
+        try {
+            const restoredCount = await pendingTransactionStore.load();
+            if (restoredCount > 0) {
+                console.error(`Restored ${restoredCount} transaction record(s)`);
             }
+        } catch (error) {
+            console.error("❌ Failed to load pending transactions:", error);
+        }
+        await transactionProxyService.useStore(pendingTransactionStore, {
+            ttlMs: storeConfig.ttlSeconds * 1000,
+            retentionMs: storeConfig.retentionSeconds * 1000,
+            aptosClient
+        });
+
+        sequenceNumberManager = new SequenceNumberManager(aptosClient);
+
+        // 名称解析器；本地名称文件无效时初始化失败，避免把资金发到错误的地址
+        const nameResolverConfig = getNameResolverConfig();
+        nameResolver = await createNameResolver(aptosClient, nameResolverConfig);
+        if (nameResolverConfig.backend === 'local') {
+            console.error(`✅ Resolving names from ${nameResolverConfig.filePath}`);
         }
 
         // 初始化客户端签名服务（用于客户端签名模式）
-        signingService = new ClientProvidedSigningService(aptosClient, txConfig.readOnlyMode);
+        const clientSigningService = new ClientProvidedSigningService(
+            aptosClient,
+            txConfig.readOnlyMode,
+            sponsorAccount
+                ? {
+                    account: sponsorAccount,
+                    budget: new SponsorshipBudget({
+                        maxPerSenderOctas: sponsorConfig.maxPerSenderOctas,
+                        dailyBudgetOctas: sponsorConfig.dailyBudgetOctas,
+                        maxGasAmount: sponsorConfig.maxGasAmount
+                    })
+                }
+                : undefined,
+            sequenceNumberManager
+        );
+        signingService = clientSigningService;
+
+        // 远程签名模式 - 签名委托给外部签名服务，私钥不进入本进程
+        if (txConfig.signingMode === 'remote' && txConfig.remoteSigner) {
+            const remoteSigningService = new RemoteSigningService(
+                aptosClient,
+                txConfig.remoteSigner,
+                clientSigningService,
+                sequenceNumberManager
+            );
+            const identity = await remoteSigningService.getIdentity();
+            remoteSignerAddress = aptos.AccountAddress.fromString(identity.address);
+            signingService = remoteSigningService;
+            console.error(`✅ Using remote signer ${txConfig.remoteSigner.url} for account ${identity.address}`);
+        }
 
         // 根据配置选择适当的模式
         if (txConfig.readOnlyMode) {
@@ -69,7 +230,7 @@ export async function initAptos(): Promise<void> {
             streamInstance = new Stream(
                 defaultAddress,
                 config.aptosNetwork as aptos.Network,
-                config.aptosNodeUrl
+                proxyUrl
             );
             console.log("Initialized Stream in read-only mode");
         } else if (txConfig.signingMode === 'direct' && signerAccount) {
@@ -77,16 +238,24 @@ export async function initAptos(): Promise<void> {
             streamInstance = new Stream(
                 signerAccount,
                 config.aptosNetwork as aptos.Network,
-                config.aptosNodeUrl
+                proxyUrl
             );
             console.log("Initialized Stream with direct signing capability");
+        } else if (remoteSignerAddress) {
+            // 远程签名模式 - 使用远程签名账户地址初始化Stream
+            streamInstance = new Stream(
+                remoteSignerAddress,
+                config.aptosNetwork as aptos.Network,
+                proxyUrl
+            );
+            console.error("Initialized Stream with remote signing");
         } else {
             // 客户端签名模式 - 使用默认地址初始化Stream
             const defaultAddress = aptos.AccountAddress.fromString("0x1");
             streamInstance = new Stream(
                 defaultAddress,
                 config.aptosNetwork as aptos.Network,
-                config.aptosNodeUrl
+                proxyUrl
             );
             console.log(`Initialized Stream in client-side signing mode`);
         }
@@ -108,12 +277,86 @@ export function getAptosClient(): InstanceType<typeof aptos.Aptos> {
 
 /**
  * Get the initialized Stream instance
+ * @param sender Optional keystore account name or address to build transactions from;
+ * each account gets its own Stream instance
  */
-export function getStreamInstance(): Stream {
+export function getStreamInstance(sender?: string): Stream {
     if (!streamInstance) {
         throw new Error("Stream instance not initialized. Call initAptos first.");
     }
-    return streamInstance;
+    if (!sender) {
+        return streamInstance;
+    }
+
+    const { address, account } = resolveSender(sender);
+    const key = address.toString();
+    let instance = streamInstances.get(key);
+    if (!instance) {
+        const config = getConfig();
+        // 有私钥的账户可由服务器签名，其他地址只能构建交易由客户端签名
+        instance = new Stream(
+            account ?? address,
+            config.aptosNetwork as aptos.Network,
+            nodeUrl ?? config.aptosNodeUrl
+        );
+        streamInstances.set(key, instance);
+    }
+    return instance;
+}
+
+/**
+ * Resolve a sender given as a keystore account name or an address
+ * @returns The address, and the account when the server holds its key
+ */
+export function resolveSender(sender: string): { address: aptos.AccountAddress, account?: aptos.Account } {
+    const named = keystoreAccounts.get(sender);
+    if (named) {
+        return { address: named.accountAddress, account: named };
+    }
+
+    let address: aptos.AccountAddress;
+    try {
+        address = aptos.AccountAddress.fromString(sender);
+    } catch {
+        throw new Error(`Unknown sender '${sender}': not a keystore account name or a valid address`);
+    }
+    return { address, account: getAccountForAddress(address.toString()) ?? undefined };
+}
+
+/**
+ * Get the account whose key the server holds for an address
+ * (the signer account or a keystore account)
+ */
+export function getAccountForAddress(address: string): aptos.Account | null {
+    const target = aptos.AccountAddress.fromString(address.toString());
+    if (signerAccount && signerAccount.accountAddress.equals(target)) {
+        return signerAccount;
+    }
+    for (const account of keystoreAccounts.values()) {
+        if (account.accountAddress.equals(target)) {
+            return account;
+        }
+    }
+    return null;
+}
+
+/**
+ * List the accounts the server can sign for
+ */
+export function listServerAccounts(): Array<{ name: string, address: string, source: 'keystore' | 'private_key' | 'remote' }> {
+    const accounts: Array<{ name: string, address: string, source: 'keystore' | 'private_key' | 'remote' }> = [];
+    const keystoreAddresses = new Set(Array.from(keystoreAccounts.values()).map(account => account.accountAddress.toString()));
+
+    if (signerAccount && !keystoreAddresses.has(signerAccount.accountAddress.toString())) {
+        accounts.push({ name: 'default', address: signerAccount.accountAddress.toString(), source: 'private_key' });
+    }
+    if (remoteSignerAddress) {
+        accounts.push({ name: 'remote', address: remoteSignerAddress.toString(), source: 'remote' });
+    }
+    for (const [name, account] of keystoreAccounts) {
+        accounts.push({ name, address: account.accountAddress.toString(), source: 'keystore' });
+    }
+    return accounts;
 }
 
 /**
@@ -126,9 +369,83 @@ export function getSigningService(): TransactionSigningService {
     return signingService;
 }
 
+/**
+ * Get the service asking a human to approve server-signed transactions
+ */
+export function getApprovalService(): ApprovalService {
+    if (!approvalService) {
+        throw new Error("Approval service not initialized. Call initAptos first.");
+    }
+    return approvalService;
+}
+
+/**
+ * Get the audit log of write-tool invocations
+ */
+export function getAuditLog(): AuditLog {
+    if (!auditLog) {
+        throw new Error("Audit log not initialized. Call initAptos first.");
+    }
+    return auditLog;
+}
+
+/**
+ * Get the store of results remembered by idempotency key
+ */
+export function getIdempotencyStore(): IdempotencyStore {
+    if (!idempotencyStore) {
+        throw new Error("Idempotency store not initialized. Call initAptos first.");
+    }
+    return idempotencyStore;
+}
+
+/**
+ * Get the per-account submission queue of server-signed transactions
+ */
+export function getSequenceNumberManager(): SequenceNumberManager {
+    if (!sequenceNumberManager) {
+        throw new Error("Sequence number manager not initialized. Call initAptos first.");
+    }
+    return sequenceNumberManager;
+}
+
+/**
+ * Get the resolver for recipient names
+ */
+export function getNameResolver(): NameResolver {
+    if (!nameResolver) {
+        throw new Error("Name resolver not initialized. Call initAptos first.");
+    }
+    return nameResolver;
+}
+
+/**
+ * Get the pending transaction store
+ */
+export function getPendingTransactionStore(): PendingTransactionStore {
+    if (!pendingTransactionStore) {
+        throw new Error("Pending transaction store not initialized. Call initAptos first.");
+    }
+    return pendingTransactionStore;
+}
+
 /**
  * Get the signer account if available
  */
 export function getSignerAccount(): aptos.Account | null {
     return signerAccount;
-}
\ No newline at end of file
+}
+
+/**
+ * Get the address the server signs for: the signer account, or the remote signer account
+ */
+export function getServerAccountAddress(): string | null {
+    return signerAccount?.accountAddress.toString() ?? remoteSignerAddress?.toString() ?? null;
+}
+
+/**
+ * Get the account paying gas for sponsored transactions, if configured
+ */
+export function getSponsorAccount(): aptos.Account | null {
+    return sponsorAccount;
+}
@@ -0,0 +1,31 @@
+import { getAuditLogConfig } from "./config.js";
+import { verifyAuditLog } from "./services/AuditLog.js";
+
+// 审计日志校验命令
+//
+// 用法:
+//   audit verify [path]   校验哈希链，默认使用 AUDIT_LOG_PATH
+//
+// 日志完整时退出码为0，发现篡改时为1
+
+async function main() {
+    const [command, filePath] = process.argv.slice(2);
+    if (command !== 'verify') {
+        throw new Error("Usage: audit verify [path]");
+    }
+
+    const target = filePath || getAuditLogConfig().filePath;
+    const result = await verifyAuditLog(target);
+    if (result.valid) {
+        console.log(`审计日志完整: ${target}，共 ${result.entries} 条记录，最新哈希 ${result.headHash}`);
+        return;
+    }
+
+    console.error(`审计日志已被篡改: ${target} 第 ${result.brokenAt?.line} 行: ${result.brokenAt?.reason}`);
+    process.exit(1);
+}
+
+main().catch(error => {
+    console.error(error.message || error);
+    process.exit(1);
+});
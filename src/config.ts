@@ -1,4 +1,5 @@
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 
 // Load environment variables from process.env
@@ -14,11 +15,15 @@ try {
 class AptosConfig {
     aptosNetwork: 'mainnet' | 'testnet' | 'devnet' | 'local';
     aptosNodeUrl: string;
+    // 全节点URL列表，按优先级排列；第一个与 aptosNodeUrl 相同
+    aptosNodeUrls: string[];
     aptosFaucetUrl?: string;
 
     constructor() {
         this.aptosNetwork = (process.env.APTOS_NETWORK || 'testnet') as 'testnet';
-        this.aptosNodeUrl = process.env.APTOS_NODE_URL || this.getDefaultNodeUrl();
+        const nodeUrls = (process.env.APTOS_NODE_URLS || '').split(',').map(url => url.trim()).filter(Boolean);
+        this.aptosNodeUrl = nodeUrls[0] || process.env.APTOS_NODE_URL || this.getDefaultNodeUrl();
+        this.aptosNodeUrls = nodeUrls.length > 0 ? nodeUrls : [this.aptosNodeUrl];
         this.aptosFaucetUrl = process.env.APTOS_FAUCET_URL;
     }
 
@@ -35,20 +40,62 @@ class AptosConfig {
     logConfig() {
         console.log('=== 网络配置 ===');
         console.log(`网络类型: ${this.aptosNetwork}`);
-        console.log(`节点URL: ${this.aptosNodeUrl}`);
+        console.log(`节点URL: ${this.aptosNodeUrls.join(', ')}`);
         console.log(`水龙头URL: ${this.aptosFaucetUrl || '未配置'}`);
     }
 }
 
+// 工具的能力类别：read = 只读查询，prepare = 准备交易或修改本地交易记录，sign = 签名或提交交易
+export type ToolCapability = 'read' | 'prepare' | 'sign';
+
+// 服务器模式：决定开放哪些能力类别的工具
+export type ServerMode = 'read-only' | 'prepare' | 'full';
+
+// 各服务器模式开放的能力类别
+const SERVER_MODE_CAPABILITIES: Record<ServerMode, ToolCapability[]> = {
+    'read-only': ['read'],
+    'prepare': ['read', 'prepare'],
+    'full': ['read', 'prepare', 'sign']
+};
+
+// 获取服务器模式
+// READ_ONLY_MODE=true 时始终为只读模式；否则由 SERVER_MODE 决定，默认开放全部能力
+export function getServerMode(): ServerMode {
+    if (process.env.READ_ONLY_MODE === "true") {
+        return 'read-only';
+    }
+    const configured = process.env.SERVER_MODE?.toLowerCase();
+    return configured === 'read-only' || configured === 'prepare' ? configured : 'full';
+}
+
+// 当前服务器模式是否开放某一能力类别
+export function isCapabilityAllowed(capability: ToolCapability): boolean {
+    return SERVER_MODE_CAPABILITIES[getServerMode()].includes(capability);
+}
+
 // Transaction executor configuration - 基于客户端签名的安全架构
 interface TransactionExecutorConfig {
     // 服务器是否处于"可执行"模式 - 这里"可执行"指的是服务器可以准备交易
     // 但实际签名会在客户端完成
     readOnlyMode: boolean;
-    // 签名模式：'direct' = 服务器直接签名，'client' = 客户端签名
-    signingMode: 'direct' | 'client';
+    // 签名模式：'direct' = 服务器直接签名，'client' = 客户端签名，'remote' = 外部签名服务签名
+    signingMode: 'direct' | 'client' | 'remote';
     // 可选：服务器私钥用于直接签名模式（只在非只读模式下有效）
     privateKey?: string;
+    // 远程签名模式的签名服务配置
+    remoteSigner?: RemoteSignerConfig;
+}
+
+// 远程签名服务配置（KMS/HSM网关等）
+export interface RemoteSignerConfig {
+    // 签名服务的基础URL
+    url: string;
+    // 可选：以 Bearer 方式发送的访问令牌
+    token?: string;
+    // 可选：签名服务中的密钥ID
+    keyId?: string;
+    // 请求超时时间（毫秒）
+    timeoutMs: number;
 }
 
 // Get the Aptos network configuration
@@ -58,16 +105,19 @@ export function getConfig(): AptosConfig {
 
 // 获取交易执行配置
 export function getTransactionExecutorConfig(): TransactionExecutorConfig {
-    // 读取环境变量中的只读模式配置
-    // 如果设置为 "true"，则服务器将运行在只读模式
+    // 只读模式由服务器模式决定（READ_ONLY_MODE=true 或 SERVER_MODE=read-only）
     // 否则将允许准备交易
-    const readOnlyMode = process.env.READ_ONLY_MODE === "true";
+    const serverMode = getServerMode();
+    const readOnlyMode = serverMode === 'read-only';
 
     // 读取签名模式配置
     // 'direct': 服务器使用提供的私钥直接签名
+    // 'remote': 服务器将签名消息发送到外部签名服务
     // 'client': 客户端负责签名（默认）
     const configuredSigningMode = process.env.SIGNING_MODE?.toLowerCase();
-    const signingMode = configuredSigningMode === 'direct' ? 'direct' : 'client';
+    const signingMode = configuredSigningMode === 'direct' || configuredSigningMode === 'remote'
+        ? configuredSigningMode
+        : 'client';
 
     // 读取可选的服务器私钥，用于直接签名模式
     // 警告：这应该只在开发环境或安全的部署中使用
@@ -77,16 +127,52 @@ export function getTransactionExecutorConfig(): TransactionExecutorConfig {
         console.warn("警告：私钥已配置但服务器处于只读模式，私钥将被忽略");
     }
 
-    if (privateKey && !readOnlyMode) {
+    if (privateKey && serverMode === 'full') {
         if (signingMode === 'direct') {
             console.log("服务器将使用配置的私钥进行直接签名模式");
         } else {
-            console.warn("警告：私钥已配置但签名模式为'client'，私钥将被忽略。如需服务器直接签名，请将SIGNING_MODE设置为'direct'");
+            console.warn(`警告：私钥已配置但签名模式为'${signingMode}'，私钥将被忽略。如需服务器直接签名，请将SIGNING_MODE设置为'direct'`);
         }
     }
 
-    if (signingMode === 'direct' && !privateKey && !readOnlyMode) {
-        console.warn("警告：签名模式设置为'direct'但未提供私钥，将回退到客户端签名模式");
+    // prepare 模式只准备交易，签名始终由客户端完成
+    if (serverMode === 'prepare') {
+        if (signingMode !== 'client') {
+            console.warn(`警告：服务器模式为'prepare'，签名模式'${signingMode}'将被忽略，交易由客户端签名`);
+        }
+        return {
+            readOnlyMode,
+            signingMode: 'client',
+            privateKey
+        };
+    }
+
+    if (signingMode === 'remote' && !readOnlyMode) {
+        const url = process.env.REMOTE_SIGNER_URL;
+        if (!url) {
+            console.warn("警告：签名模式设置为'remote'但未提供REMOTE_SIGNER_URL，将回退到客户端签名模式");
+            return {
+                readOnlyMode,
+                signingMode: 'client',
+                privateKey
+            };
+        }
+
+        return {
+            readOnlyMode,
+            signingMode,
+            remoteSigner: {
+                url: url.replace(/\/+$/, ''),
+                token: process.env.REMOTE_SIGNER_TOKEN || undefined,
+                keyId: process.env.REMOTE_SIGNER_KEY_ID || undefined,
+                timeoutMs: Number(process.env.REMOTE_SIGNER_TIMEOUT_MS) || 10000
+            }
+        };
+    }
+
+    // 直接签名模式也可以只使用密钥库中的账户
+    if (signingMode === 'direct' && !privateKey && !getKeystoreConfig().passphrase && !readOnlyMode) {
+        console.warn("警告：签名模式设置为'direct'但未提供私钥或密钥库口令，将回退到客户端签名模式");
         return {
             readOnlyMode,
             signingMode: 'client',
@@ -100,3 +186,207 @@ export function getTransactionExecutorConfig(): TransactionExecutorConfig {
         privateKey
     };
 }
+
+// 待签名交易存储配置
+interface PendingTransactionStoreConfig {
+    // 存储后端：'file' = JSON文件持久化（默认），'memory' = 仅内存
+    backend: 'file' | 'memory';
+    // 文件后端的存储路径
+    filePath: string;
+    // 待签名交易的有效期（秒）
+    ttlSeconds: number;
+    // 已结束交易（已确认、失败、过期、取消）的保留时长（秒）
+    retentionSeconds: number;
+}
+
+// 获取待签名交易存储配置
+export function getPendingTransactionStoreConfig(): PendingTransactionStoreConfig {
+    const backend = process.env.PENDING_TX_STORE?.toLowerCase() === 'memory' ? 'memory' : 'file';
+    const filePath = process.env.PENDING_TX_STORE_PATH
+        || path.join(os.homedir(), '.moveflow-mcp', 'pending-transactions.json');
+
+    const ttlSeconds = Number(process.env.PENDING_TX_TTL_SECONDS) || 600;
+    const retentionSeconds = Number(process.env.PENDING_TX_RETENTION_SECONDS) || 86400;
+
+    return { backend, filePath, ttlSeconds, retentionSeconds };
+}
+
+// 交易确认配置
+interface ConfirmationConfig {
+    // 等待交易上链确认的超时时间（秒）
+    timeoutSeconds: number;
+}
+
+// MoveFlow合约配置
+interface MoveFlowConfig {
+    // MoveFlow合约所在地址；执行多签提案时只允许调用该地址下的函数
+    moduleAddress?: string;
+}
+
+// 获取MoveFlow合约配置
+export function getMoveFlowConfig(): MoveFlowConfig {
+    return { moduleAddress: process.env.MOVEFLOW_MODULE_ADDRESS || undefined };
+}
+
+// 获取交易确认配置
+export function getConfirmationConfig(): ConfirmationConfig {
+    const timeoutSeconds = Number(process.env.CONFIRMATION_TIMEOUT_SECONDS) || 30;
+    return { timeoutSeconds };
+}
+
+// 代付（fee payer）配置
+interface SponsorConfig {
+    // 代付账户私钥；未配置时不启用代付模式
+    privateKey?: string;
+    // 每个发送方每天最多可代付的gas费用（octas）
+    maxPerSenderOctas: bigint;
+    // 每天代付的gas费用总预算（octas）
+    dailyBudgetOctas: bigint;
+    // 代付交易的最大gas数量，SDK默认的200000会被降到此值
+    maxGasAmount: bigint;
+}
+
+// 获取代付配置
+export function getSponsorConfig(): SponsorConfig {
+    const privateKey = process.env.SPONSOR_PRIVATE_KEY || undefined;
+    const maxPerSenderOctas = BigInt(process.env.SPONSOR_MAX_PER_SENDER_OCTAS || '10000000');
+    const dailyBudgetOctas = BigInt(process.env.SPONSOR_DAILY_BUDGET_OCTAS || '100000000');
+    // 按约100 octas的gas单价，每笔最多代付约2000000 octas，默认每个发送方每天可代付5笔
+    const maxGasAmount = BigInt(process.env.SPONSOR_MAX_GAS_AMOUNT || '20000');
+
+    return { privateKey, maxPerSenderOctas, dailyBudgetOctas, maxGasAmount };
+}
+
+// 加密密钥库配置
+interface KeystoreConfig {
+    // 密钥库文件路径
+    filePath: string;
+    // 解密密钥库的口令；未设置时不加载密钥库
+    passphrase?: string;
+    // 未指定sender时使用的账户名称
+    defaultAccount?: string;
+}
+
+// 获取密钥库配置
+export function getKeystoreConfig(): KeystoreConfig {
+    return {
+        filePath: process.env.KEYSTORE_PATH || path.join(os.homedir(), '.moveflow-mcp', 'keystore.json'),
+        passphrase: process.env.KEYSTORE_PASSPHRASE || undefined,
+        defaultAccount: process.env.KEYSTORE_DEFAULT_ACCOUNT || undefined
+    };
+}
+
+// 支出策略配置
+interface SpendingPolicyConfig {
+    // 策略文件路径；未设置时不限制服务器签名
+    policyPath?: string;
+    // 记录已签名支出的账本路径，用于按日/按周累计限额
+    ledgerPath: string;
+}
+
+// 获取支出策略配置
+export function getSpendingPolicyConfig(): SpendingPolicyConfig {
+    return {
+        policyPath: process.env.SPENDING_POLICY_PATH || undefined,
+        ledgerPath: process.env.SPENDING_LEDGER_PATH || path.join(os.homedir(), '.moveflow-mcp', 'spending-ledger.json')
+    };
+}
+
+// 人工确认配置
+interface ApprovalConfig {
+    // 需要确认的工具，'*'表示所有写入工具，空数组表示不需要确认
+    tools: string[] | '*';
+    // 金额低于此值（最小单位）的操作无需确认
+    minAmount: bigint;
+    // 等待用户确认的时长（秒）
+    timeoutSeconds: number;
+}
+
+// 获取人工确认配置
+export function getApprovalConfig(): ApprovalConfig {
+    const toolsSetting = (process.env.APPROVAL_REQUIRED_TOOLS || '*').trim();
+    const tools = toolsSetting === '*'
+        ? '*'
+        : toolsSetting === 'none'
+            ? []
+            : toolsSetting.split(',').map(tool => tool.trim()).filter(Boolean);
+
+    return {
+        tools,
+        minAmount: BigInt(process.env.APPROVAL_MIN_AMOUNT || '0'),
+        timeoutSeconds: parseInt(process.env.APPROVAL_TIMEOUT_SECONDS || '300', 10)
+    };
+}
+
+// 审计日志配置
+interface AuditLogConfig {
+    // 审计日志文件路径（JSONL，每条记录与上一条哈希链接）
+    filePath: string;
+}
+
+// 获取审计日志配置
+export function getAuditLogConfig(): AuditLogConfig {
+    return {
+        filePath: process.env.AUDIT_LOG_PATH || path.join(os.homedir(), '.moveflow-mcp', 'audit.jsonl')
+    };
+}
+
+// 幂等键配置
+interface IdempotencyConfig {
+    // 记住幂等键及其结果的时长（秒）
+    windowSeconds: number;
+    // 持久化文件路径；待签名交易使用内存存储时为null
+    filePath: string | null;
+}
+
+// 获取幂等键配置
+export function getIdempotencyConfig(): IdempotencyConfig {
+    const windowSeconds = Number(process.env.IDEMPOTENCY_WINDOW_SECONDS) || 86400;
+    const filePath = getPendingTransactionStoreConfig().backend === 'memory'
+        ? null
+        : process.env.IDEMPOTENCY_STORE_PATH || path.join(os.homedir(), '.moveflow-mcp', 'idempotency.json');
+
+    return { windowSeconds, filePath };
+}
+
+// 名称解析配置
+interface NameResolverConfig {
+    // 解析方式：ans 使用链上Aptos名称服务，local 使用本地名称文件，none 不解析名称
+    backend: 'ans' | 'local' | 'none';
+    // 本地名称文件路径（名称到地址的JSON映射）
+    filePath: string;
+}
+
+// 获取名称解析配置
+export function getNameResolverConfig(): NameResolverConfig {
+    const value = process.env.NAME_RESOLVER?.toLowerCase();
+    const backend = value === 'local' || value === 'none' ? value : 'ans';
+    const filePath = process.env.NAME_RESOLVER_FILE || path.join(os.homedir(), '.moveflow-mcp', 'names.json');
+
+    return { backend, filePath };
+}
+
+// 全节点请求的重试、超时和熔断配置
+interface FullnodeResilienceConfig {
+    // 单次请求超时（毫秒）
+    timeoutMs: number;
+    // 幂等读取请求的最大重试次数
+    maxRetries: number;
+    // 指数退避的初始间隔（毫秒）
+    baseDelayMs: number;
+    // 连续失败多少次后断开该节点
+    failureThreshold: number;
+    // 断开后多久放行一次试探请求（毫秒）
+    cooldownMs: number;
+}
+
+// 获取全节点请求的重试、超时和熔断配置
+export function getFullnodeResilienceConfig(): FullnodeResilienceConfig {
+    return {
+        timeoutMs: Number(process.env.NODE_REQUEST_TIMEOUT_MS) || 10000,
+        maxRetries: process.env.NODE_MAX_RETRIES !== undefined ? parseInt(process.env.NODE_MAX_RETRIES, 10) : 3,
+        baseDelayMs: Number(process.env.NODE_RETRY_BASE_DELAY_MS) || 200,
+        failureThreshold: Number(process.env.NODE_CIRCUIT_FAILURE_THRESHOLD) || 5,
+        cooldownMs: (Number(process.env.NODE_CIRCUIT_COOLDOWN_SECONDS) || 30) * 1000
+    };
+}
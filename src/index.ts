@@ -1,9 +1,13 @@
 import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { initAptos, getStreamInstance } from "./aptos.js"; // 添加getStreamInstance导入
+import { initAptos, getStreamInstance, getNameResolver } from "./aptos.js"; // 添加getStreamInstance导入
 import { tools } from "./tools.js"; // 修正导入，使用正确的导出名称
 import { adaptToolForServer } from "./adapters.js";
-import { fetchActiveStreams, formatStreamData } from "./resources.js";
+import { fetchAccountSummary, fetchActiveStreams, fetchStreamHistoryEvents, formatStreamData } from "./resources.js";
+import { annotateStreamNames } from "./services/NameResolver.js";
+import { formatStreamTimeline } from "./services/StreamHistory.js";
+import { formatAccountSummary } from "./services/AccountSummary.js";
+import { ToolCapability, getServerMode, isCapabilityAllowed } from "./config.js";
 
 // 添加工具类型接口
 interface Tool {
@@ -11,6 +15,7 @@ interface Tool {
     description: string;
     inputSchema: any; // 将inputSchema从可选改为必需
     handler: (args: any) => Promise<any>;
+    capability: ToolCapability; // 能力类别：read、prepare 或 sign
     [key: string]: any; // 允许其他属性
 }
 
@@ -19,11 +24,12 @@ async function init() {
     try {
         // 初始化Aptos连接
         await initAptos();
-        console.error(`MoveFlow Aptos MCP服务器已启动，加载了 ${tools.length} 个工具`);
+        const available = (tools as Tool[]).filter(tool => isCapabilityAllowed(tool.capability));
+        console.error(`MoveFlow Aptos MCP服务器已启动（${getServerMode()} 模式），加载了 ${available.length} 个工具`);
 
         // 输出所有工具名称以便调试
         console.error("可用工具:");
-        tools.forEach((tool: Tool) => {
+        available.forEach((tool: Tool) => {
             console.error(`- ${tool.name}: ${tool.description}`);
         });
     } catch (error) {
@@ -47,9 +53,14 @@ async function main() {
             version: "1.0.0",
         });
 
-        // Register each tool with the server
+        // Register each tool the server mode allows; the others are left out of tools/list
         for (const tool of tools as Tool[]) {
-            const adaptedTool = adaptToolForServer(tool);
+            if (!isCapabilityAllowed(tool.capability)) {
+                continue;
+            }
+
+            // 传入底层Server，用于在签名前向用户发起确认（elicitation）
+            const adaptedTool = adaptToolForServer(tool, server.server);
 
             // Use the correct overload - provide parameters schema instead of description
             server.tool(
@@ -105,8 +116,8 @@ async function main() {
                     // Fetch the stream info
                     const streamInfo = await stream.fetchStream(streamIdString);
 
-                    // Format the stream data
-                    const formattedStream = formatStreamData(streamInfo);
+                    // Format the stream data, with names for the sender and recipient
+                    const formattedStream = formatStreamData(await annotateStreamNames(getNameResolver(), streamInfo));
 
                     return {
                         contents: [{
@@ -131,6 +142,71 @@ async function main() {
             }
         );
 
+        // Register stream history resource template
+        server.resource(
+            "stream-history",
+            new ResourceTemplate("moveflow://streams/{streamId}/history", { list: undefined }),
+            async (uri, { streamId }) => {
+                const streamIdString = Array.isArray(streamId) ? streamId[0] : streamId;
+                try {
+                    const history = await fetchStreamHistoryEvents(streamIdString);
+
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            text: formatStreamTimeline(streamIdString, history),
+                            mimeType: "text/plain"
+                        }]
+                    };
+                } catch (error) {
+                    console.error(`Error fetching history of stream ${streamIdString}:`, error);
+                    const errorMessage = error && typeof error === 'object' && 'message' in error
+                        ? error.message
+                        : "Unknown error";
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            text: `Error fetching history of stream ${streamIdString}: ${errorMessage}`,
+                            mimeType: "text/plain"
+                        }]
+                    };
+                }
+            }
+        );
+
+        // Register account summary resource template
+        server.resource(
+            "account-summary",
+            new ResourceTemplate("moveflow://accounts/{address}/summary", { list: undefined }),
+            async (uri, { address }) => {
+                const addressString = Array.isArray(address) ? address[0] : address;
+                try {
+                    // 资源中列出最先结束的5个流
+                    const summary = await fetchAccountSummary(addressString, 5);
+
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            text: formatAccountSummary(summary),
+                            mimeType: "text/plain"
+                        }]
+                    };
+                } catch (error) {
+                    console.error(`Error summarizing account ${addressString}:`, error);
+                    const errorMessage = error && typeof error === 'object' && 'message' in error
+                        ? error.message
+                        : "Unknown error";
+                    return {
+                        contents: [{
+                            uri: uri.href,
+                            text: `Error summarizing account ${addressString}: ${errorMessage}`,
+                            mimeType: "text/plain"
+                        }]
+                    };
+                }
+            }
+        );
+
         console.error("MoveFlow Aptos MCP Server tools and resources registered");
 
         // Start the server with stdio transport
@@ -0,0 +1,80 @@
+import { Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
+import { getKeystoreConfig } from "./config.js";
+import { Keystore, parseEd25519PrivateKey } from "./services/Keystore.js";
+
+// 密钥库管理命令
+//
+// 用法:
+//   keystore list
+//   keystore add <name>          从标准输入读取私钥
+//   keystore add <name> --generate  生成新私钥
+//   keystore remove <name>
+//
+// 密钥库路径和口令分别来自 KEYSTORE_PATH 和 KEYSTORE_PASSPHRASE
+
+function readStdin(): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let data = '';
+        process.stdin.setEncoding('utf8');
+        process.stdin.on('data', chunk => { data += chunk; });
+        process.stdin.on('end', () => resolve(data.trim()));
+        process.stdin.on('error', reject);
+    });
+}
+
+function requirePassphrase(): string {
+    const { passphrase } = getKeystoreConfig();
+    if (!passphrase) {
+        throw new Error("KEYSTORE_PASSPHRASE is required to add accounts");
+    }
+    return passphrase;
+}
+
+async function main() {
+    const [command, name, flag] = process.argv.slice(2);
+    const config = getKeystoreConfig();
+    const keystore = new Keystore(config.filePath);
+    await keystore.load();
+
+    switch (command) {
+        case 'list': {
+            console.log(JSON.stringify(keystore.list(), null, 2));
+            break;
+        }
+        case 'add': {
+            if (!name) {
+                throw new Error("Usage: keystore add <name> [--generate]");
+            }
+            const passphrase = requirePassphrase();
+            // 服务器启动时只用一个口令解锁，新账户必须与已有账户使用同一口令
+            const { failed } = keystore.unlockAll(passphrase);
+            if (failed.length > 0) {
+                throw new Error(
+                    `KEYSTORE_PASSPHRASE does not decrypt existing account(s) ${failed.map(entry => `'${entry.name}'`).join(', ')}; ` +
+                    "use the passphrase the keystore was created with"
+                );
+            }
+            const privateKey = flag === '--generate'
+                ? Ed25519PrivateKey.generate()
+                : parseEd25519PrivateKey(await readStdin());
+            const account = await keystore.add(name, privateKey, passphrase);
+            console.log(`已添加账户 ${account.name}: ${account.address}`);
+            break;
+        }
+        case 'remove': {
+            if (!name) {
+                throw new Error("Usage: keystore remove <name>");
+            }
+            const removed = await keystore.remove(name);
+            console.log(removed ? `已删除账户 ${name}` : `账户 ${name} 不存在`);
+            break;
+        }
+        default:
+            throw new Error("Usage: keystore <list|add|remove> [name]");
+    }
+}
+
+main().catch(error => {
+    console.error(error.message || error);
+    process.exit(1);
+});
@@ -0,0 +1,90 @@
+import * as http from 'http';
+import { Account, Ed25519PrivateKey, Hex } from "@aptos-labs/ts-sdk";
+
+// 本地签名服务 - 实现远程签名协议，用于开发和测试
+// 生产环境应使用KMS/HSM网关，私钥不应保存在本进程中
+//
+// 环境变量:
+// LOCAL_SIGNER_PRIVATE_KEY: Ed25519私钥（十六进制），未设置时生成临时私钥
+// LOCAL_SIGNER_PORT: 监听端口，默认8787
+// LOCAL_SIGNER_TOKEN: 可选，要求请求携带 Bearer 令牌
+
+function loadAccount(): Account {
+    const privateKey = process.env.LOCAL_SIGNER_PRIVATE_KEY;
+    if (!privateKey) {
+        console.error("未设置LOCAL_SIGNER_PRIVATE_KEY，使用临时生成的私钥");
+        return Account.generate();
+    }
+    return Account.fromPrivateKey({
+        privateKey: new Ed25519PrivateKey(privateKey.trim().replace(/^ed25519-priv-/, ''))
+    });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+        let data = '';
+        req.on('data', chunk => { data += chunk; });
+        req.on('end', () => {
+            try {
+                resolve(data ? JSON.parse(data) : {});
+            } catch (error) {
+                reject(error);
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+const account = loadAccount();
+const token = process.env.LOCAL_SIGNER_TOKEN;
+const port = Number(process.env.LOCAL_SIGNER_PORT) || 8787;
+
+const server = http.createServer(async (req, res) => {
+    if (token && req.headers.authorization !== `Bearer ${token}`) {
+        return sendJson(res, 401, { error: "unauthorized" });
+    }
+
+    const url = new URL(req.url || '/', `http://localhost:${port}`);
+
+    try {
+        // 返回签名账户和公钥
+        if (req.method === 'GET' && url.pathname === '/public-key') {
+            return sendJson(res, 200, {
+                address: account.accountAddress.toString(),
+                scheme: 'ed25519',
+                public_key: account.publicKey.toString()
+            });
+        }
+
+        // 对签名消息签名
+        if (req.method === 'POST' && url.pathname === '/sign') {
+            const body = await readBody(req);
+            if (typeof body.signing_message !== 'string') {
+                return sendJson(res, 400, { error: "signing_message is required" });
+            }
+
+            const message = Hex.fromHexInput(body.signing_message).toUint8Array();
+            console.error(`签名请求: ${body.transaction?.function || '未知函数'} (sender ${body.transaction?.sender || '未知'})`);
+
+            return sendJson(res, 200, {
+                scheme: 'ed25519',
+                public_key: account.publicKey.toString(),
+                signature: account.sign(message).toString()
+            });
+        }
+
+        sendJson(res, 404, { error: "not found" });
+    } catch (error: any) {
+        sendJson(res, 400, { error: error.message || "invalid request" });
+    }
+});
+
+server.listen(port, () => {
+    console.error(`本地签名服务已启动: http://localhost:${port}`);
+    console.error(`签名账户: ${account.accountAddress.toString()}`);
+});
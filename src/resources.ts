@@ -1,34 +1,111 @@
-import { getStreamInstance } from "./aptos.js";
+import { getAptosClient, getNameResolver, getServerAccountAddress, getStreamInstance } from "./aptos.js";
+import { annotateStreamNames, resolveRecipient } from "./services/NameResolver.js";
+import { getLedgerTimeSeconds, normalizeStream } from "./services/StreamRecords.js";
+import { StreamHistory, annotateHistoryActors, fetchStreamHistory } from "./services/StreamHistory.js";
+import { AccountSummary, TokenDisplay, summarizeAccountStreams } from "./services/AccountSummary.js";
+import { getTokenMetadata } from "./services/TokenMetadata.js";
 import { StreamDirection } from "@moveflow/aptos-sdk";
 
-// Function to fetch active streams associated with the current account
-export async function fetchActiveStreams() {
-    try {
-        const stream = getStreamInstance();
+// getStreams 每页读取的条数
+const STREAMS_PAGE_SIZE = 100;
+// 最多读取的页数，防止异常响应导致无限翻页
+const MAX_STREAM_PAGES = 100;
+
+// 读取某账户作为发送方或接收方的全部流，逐页翻到最后一页
+export async function fetchAccountStreams(address: string): Promise<any[]> {
+    // 绑定到该地址的只读Stream实例
+    const stream = getStreamInstance(address);
 
-        // 添加警告日志，表明使用的是废弃 API
-        console.warn("Warning: Using deprecated Stream.getStreams API. May be removed in future versions.");
+    // 添加警告日志，表明使用的是废弃 API
+    console.warn("Warning: Using deprecated Stream.getStreams API. May be removed in future versions.");
 
-        // 使用带有适当参数的 getStreams 方法
-        const activeStreams = await stream.getStreams(
+    const streams: any[] = [];
+    for (let page = 0; page < MAX_STREAM_PAGES; page++) {
+        const entries = await stream.getStreams(
             StreamDirection.Both,
-            { limit: 20, offset: 0 }
+            { limit: STREAMS_PAGE_SIZE, offset: page * STREAMS_PAGE_SIZE }
         );
 
         // 处理返回的结果
-        if (!activeStreams || !Array.isArray(activeStreams)) {
-            console.error("Unexpected response format from getStreams:", activeStreams);
-            return [];
+        if (!entries || !Array.isArray(entries)) {
+            console.error("Unexpected response format from getStreams:", entries);
+            break;
         }
 
         // 将表格条目转换为更易于使用的格式
-        return activeStreams.map(entry => entry.decoded_value || entry);
+        streams.push(...entries.map((entry: any) => entry.decoded_value || entry));
+        if (entries.length < STREAMS_PAGE_SIZE) {
+            break;
+        }
+    }
+    return streams;
+}
+
+// 读取流的历史事件，优先通过索引器按流ID查询，并附上操作方名称
+export async function fetchStreamHistoryEvents(streamId: string): Promise<StreamHistory> {
+    const streamInfo = await getStreamInstance().fetchStream(streamId);
+    if (!streamInfo) {
+        throw new Error(`Stream ${streamId} not found`);
+    }
+
+    const now = await getLedgerTimeSeconds(getAptosClient());
+    const record = normalizeStream(streamInfo, now);
+    const history = await fetchStreamHistory(getAptosClient(), {
+        streamId,
+        sender: record.sender,
+        recipient: record.recipient,
+        // 流创建之前的交易无需读取
+        since: record.createdAt
+    });
+    return { ...history, events: await annotateHistoryActors(getNameResolver(), history.events) };
+}
+
+// 汇总某账户收发的全部流，按代币统计并按代币精度格式化金额
+export async function fetchAccountSummary(input: string, endingLimit: number): Promise<AccountSummary> {
+    // 支持地址或.apt名称
+    const address = await resolveRecipient(getNameResolver(), input, true);
+    const now = await getLedgerTimeSeconds(getAptosClient());
+    const records = (await fetchAccountStreams(address)).map(stream => normalizeStream(stream, now));
+
+    // 每种代币只查询一次符号和精度
+    const tokens = new Map<string, TokenDisplay>();
+    await Promise.all(
+        Array.from(new Map(records.map(record => [record.token, record.isFa])).entries())
+            .map(async ([token, isFa]) => {
+                tokens.set(token, await getTokenMetadata(getAptosClient(), token, isFa));
+            })
+    );
+    return summarizeAccountStreams(address, records, now, tokens, endingLimit);
+}
+
+// Function to fetch active streams associated with the current account
+export async function fetchActiveStreams() {
+    try {
+        const address = getServerAccountAddress();
+        if (!address) {
+            return [];
+        }
+
+        // 只保留未关闭且未结束的流
+        const now = await getLedgerTimeSeconds(getAptosClient());
+        const activeStreams = (await fetchAccountStreams(address))
+            .filter(stream => ['scheduled', 'active', 'paused'].includes(normalizeStream(stream, now).status));
+
+        // 反查发送方和接收方的名称
+        const resolver = getNameResolver();
+        return Promise.all(activeStreams.map(stream => annotateStreamNames(resolver, stream)));
     } catch (error) {
         console.error("Error fetching active streams:", error);
         return [];
     }
 }
 
+// 地址后附上名称（如有）
+function formatParty(address?: string, name?: string): string {
+    if (!address) return "Unknown";
+    return name ? `${name} (${address})` : address;
+}
+
 // Function to format stream data in a readable text format
 export function formatStreamData(stream: any) {
     if (!stream) return "No stream data available";
@@ -43,8 +120,8 @@ Stream ID: ${streamData.id || streamData.stream_id || "Unknown"}
 Name: ${streamData.name || "Unnamed"}
 Type: ${streamData.stream_type || "Unknown"}
 Status: ${streamData.status || "Unknown"}
-Sender: ${streamData.sender || "Unknown"}
-Recipient: ${streamData.recipient || "Unknown"}
+Sender: ${formatParty(streamData.sender, streamData.sender_name)}
+Recipient: ${formatParty(streamData.recipient, streamData.recipient_name)}
 Token: ${streamData.coin_type || streamData.asset_type || "Unknown"}
 Amount: ${streamData.deposit_amount || streamData.amount || "Unknown"}
 Start Time: ${streamData.start_time ? new Date(streamData.start_time * 1000).toLocaleString() : "Unknown"}
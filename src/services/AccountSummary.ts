@@ -0,0 +1,219 @@
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { StreamRecord } from "./StreamRecords.js";
+import { computeStreamBalance } from "./StreamAccrual.js";
+import { formatUnits } from "./TokenMetadata.js";
+
+const SECONDS_PER_DAY = 86400n;
+const SECONDS_PER_MONTH = 30n * SECONDS_PER_DAY;
+
+/**
+ * Symbol and decimals used to format a token's amounts
+ */
+export interface TokenDisplay {
+    symbol: string;
+    decimals?: number;
+}
+
+/**
+ * Totals over the streams of one token flowing in one direction
+ * Amounts are formatted with the token's decimals.
+ */
+export interface FlowTotals {
+    streams: number;
+    // Deposits of the streams that are not closed
+    committed: string;
+    // Vested so far
+    streamed: string;
+    withdrawable: string;
+    // Rate of the streams running now; paused and scheduled streams do not count
+    perDay: string;
+    // 30 days
+    perMonth: string;
+}
+
+export interface TokenSummary {
+    token: string;
+    symbol: string;
+    decimals?: number;
+    incoming: FlowTotals;
+    outgoing: FlowTotals;
+}
+
+/**
+ * A stream that has not finished yet, for the ending-soonest list
+ */
+export interface EndingStream {
+    streamId: string;
+    name: string;
+    direction: 'incoming' | 'outgoing';
+    counterparty: string;
+    token: string;
+    status: StreamRecord['status'];
+    // Expected stop time, with time spent paused added
+    stopTime: number;
+    locked: string;
+}
+
+export interface AccountSummary {
+    address: string;
+    asOf: number;
+    // Closed streams are counted but left out of the totals
+    closedStreams: number;
+    tokens: TokenSummary[];
+    endingSoonest: EndingStream[];
+}
+
+interface Totals {
+    streams: number;
+    committed: bigint;
+    streamed: bigint;
+    withdrawable: bigint;
+    // Base units per day and per 30 days
+    perDay: bigint;
+    perMonth: bigint;
+}
+
+function emptyTotals(): Totals {
+    return { streams: 0, committed: 0n, streamed: 0n, withdrawable: 0n, perDay: 0n, perMonth: 0n };
+}
+
+function sameAddress(a: string, b: string): boolean {
+    try {
+        return AccountAddress.from(a).equals(AccountAddress.from(b));
+    } catch {
+        return false;
+    }
+}
+
+function formatTotals(totals: Totals, display: TokenDisplay): FlowTotals {
+    const amount = (value: bigint) => `${formatUnits(value, display.decimals)} ${display.symbol}`;
+    return {
+        streams: totals.streams,
+        committed: amount(totals.committed),
+        streamed: amount(totals.streamed),
+        withdrawable: amount(totals.withdrawable),
+        perDay: amount(totals.perDay),
+        perMonth: amount(totals.perMonth)
+    };
+}
+
+/**
+ * Aggregate an account's streams per token and direction, at the given time
+ * @param tokens Display data per token id; tokens missing from it are shown in base units
+ * @param endingLimit How many unfinished streams to list in endingSoonest
+ */
+export function summarizeAccountStreams(
+    address: string,
+    records: StreamRecord[],
+    now: number,
+    tokens: Map<string, TokenDisplay>,
+    endingLimit: number
+): AccountSummary {
+    const byToken = new Map<string, { incoming: Totals; outgoing: Totals }>();
+    const ending: Array<{ record: StreamRecord; outgoing: boolean; stopTime: number; locked: bigint }> = [];
+    let closedStreams = 0;
+
+    for (const record of records) {
+        if (record.status === 'closed') {
+            closedStreams++;
+            continue;
+        }
+        const outgoing = sameAddress(record.sender, address);
+        // A stream to oneself is counted once, as outgoing
+        if (!outgoing && !sameAddress(record.recipient, address)) {
+            continue;
+        }
+
+        const balance = computeStreamBalance(record, now);
+        const entry = byToken.get(record.token) ?? { incoming: emptyTotals(), outgoing: emptyTotals() };
+        byToken.set(record.token, entry);
+        const totals = outgoing ? entry.outgoing : entry.incoming;
+        totals.streams++;
+        totals.committed += BigInt(record.depositAmount);
+        totals.streamed += BigInt(balance.vestedAmount);
+        totals.withdrawable += BigInt(balance.withdrawableAmount);
+        const duration = BigInt(record.stopTime - record.startTime);
+        if (record.status === 'active' && duration > 0n) {
+            const streamable = BigInt(record.depositAmount) - BigInt(record.cliffAmount);
+            totals.perDay += streamable * SECONDS_PER_DAY / duration;
+            totals.perMonth += streamable * SECONDS_PER_MONTH / duration;
+        }
+
+        if (record.status !== 'completed') {
+            ending.push({
+                record,
+                outgoing,
+                stopTime: record.stopTime + balance.pausedSeconds,
+                locked: BigInt(balance.lockedAmount)
+            });
+        }
+    }
+
+    const displayOf = (token: string): TokenDisplay => tokens.get(token) ?? { symbol: token.split('::').pop() || token };
+    return {
+        address,
+        asOf: now,
+        closedStreams,
+        tokens: Array.from(byToken.entries()).map(([token, entry]) => {
+            const display = displayOf(token);
+            return {
+                token,
+                symbol: display.symbol,
+                decimals: display.decimals,
+                incoming: formatTotals(entry.incoming, display),
+                outgoing: formatTotals(entry.outgoing, display)
+            };
+        }),
+        endingSoonest: ending
+            .sort((a, b) => a.stopTime - b.stopTime)
+            .slice(0, endingLimit)
+            .map(({ record, outgoing, stopTime, locked }) => {
+                const display = displayOf(record.token);
+                return {
+                    streamId: record.streamId,
+                    name: record.name,
+                    direction: outgoing ? 'outgoing' : 'incoming',
+                    counterparty: outgoing ? record.recipient : record.sender,
+                    token: record.token,
+                    status: record.status,
+                    stopTime,
+                    locked: `${formatUnits(locked, display.decimals)} ${display.symbol}`
+                };
+            })
+    };
+}
+
+/**
+ * Render a summary as text
+ */
+export function formatAccountSummary(summary: AccountSummary): string {
+    const lines = [`Streams of ${summary.address} as of ${new Date(summary.asOf * 1000).toISOString()}`];
+    if (summary.tokens.length === 0) {
+        lines.push('No open streams');
+    }
+    for (const token of summary.tokens) {
+        lines.push('', `${token.symbol} (${token.token})`);
+        for (const [label, totals] of [['Incoming', token.incoming], ['Outgoing', token.outgoing]] as const) {
+            if (totals.streams === 0) {
+                continue;
+            }
+            lines.push(
+                `  ${label}: ${totals.streams} stream(s), committed ${totals.committed}, streamed ${totals.streamed}, ` +
+                `withdrawable ${totals.withdrawable}, ${totals.perDay}/day, ${totals.perMonth}/month`
+            );
+        }
+    }
+    if (summary.endingSoonest.length > 0) {
+        lines.push('', 'Ending soonest:');
+        for (const stream of summary.endingSoonest) {
+            lines.push(
+                `  ${new Date(stream.stopTime * 1000).toISOString()}  #${stream.streamId}${stream.name ? ` ${stream.name}` : ''} ` +
+                `${stream.direction === 'outgoing' ? 'to' : 'from'} ${stream.counterparty}, ${stream.locked} locked (${stream.status})`
+            );
+        }
+    }
+    if (summary.closedStreams > 0) {
+        lines.push('', `${summary.closedStreams} closed stream(s) not included`);
+    }
+    return lines.join('\n');
+}
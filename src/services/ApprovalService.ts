@@ -0,0 +1,246 @@
+import * as crypto from 'crypto';
+import { z } from "zod";
+import { Aptos, SimpleTransaction } from "@aptos-labs/ts-sdk";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ResultSchema } from "@modelcontextprotocol/sdk/types.js";
+import { PolicyRequest, describePolicyRequest } from "./PolicyEngine.js";
+import { maxGasFeeOctas } from "./SponsorshipBudget.js";
+import { TokenMetadata, formatUnits, getTokenMetadata } from "./TokenMetadata.js";
+
+const MAX_CODE_ATTEMPTS = 3;
+const OCTAS_PER_APT = 100000000;
+
+/**
+ * Which server-signed tool calls need a human to approve them
+ */
+export interface ApprovalRule {
+    // Tools that need approval; '*' for every write tool
+    tools: string[] | '*';
+    // Calls moving less than this, in base units, are approved automatically
+    minAmount: bigint;
+    // How long a human has to answer
+    timeoutSeconds: number;
+}
+
+/**
+ * Decoded operation shown to the human before signing
+ */
+export interface OperationSummary {
+    toolName: string;
+    sender: string;
+    token?: TokenMetadata;
+    transfers: Array<{ recipient: string; amount: string }>;
+    total?: string;
+    duration?: string;
+    streamIds: string[];
+    maxGasFee: string;
+}
+
+/**
+ * Outcome of asking for approval
+ */
+export type ApprovalDecision =
+    | { status: 'approved' }
+    | { status: 'rejected'; reason: string }
+    | { status: 'code_required'; expiresAt: number };
+
+interface PendingCode {
+    codeHash: Buffer;
+    toolName: string;
+    args: any;
+    expiresAt: number;
+    attempts: number;
+}
+
+// Result of an elicitation/create request
+const elicitResultSchema = z.object({
+    action: z.enum(['accept', 'decline', 'cancel']),
+    content: z.record(z.unknown()).optional()
+}).passthrough();
+
+function hashCode(code: string): Buffer {
+    return crypto.createHash('sha256').update(code).digest();
+}
+
+function formatDuration(seconds: number): string {
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const parts = [days && `${days}天`, hours && `${hours}小时`, minutes && `${minutes}分钟`].filter(Boolean);
+    return parts.length > 0 ? parts.join('') : `${seconds}秒`;
+}
+
+/**
+ * Decode a tool call into what the human needs to see: recipients, amounts with the token symbol,
+ * stream duration and the maximum gas fee
+ */
+export async function describeOperation(
+    aptosClient: Aptos,
+    toolName: string,
+    args: any,
+    transaction: SimpleTransaction
+): Promise<OperationSummary> {
+    const request = describePolicyRequest(toolName, args);
+    const token = request.coin ? await getTokenMetadata(aptosClient, request.coin, Boolean(args?.isFa)) : undefined;
+    const symbol = token ? ` ${token.symbol}` : '';
+    const total = request.deposits.reduce((sum, deposit) => sum + deposit.amount, 0n);
+
+    let duration: string | undefined;
+    if (request.startTime !== undefined && request.stopTime !== undefined) {
+        duration = `${formatDuration(request.stopTime - request.startTime)} ` +
+            `(${new Date(request.startTime * 1000).toISOString()} → ${new Date(request.stopTime * 1000).toISOString()})`;
+    } else if (args?.extendTime !== undefined) {
+        duration = `延长至 ${new Date(Number(args.extendTime) * 1000).toISOString()}`;
+    }
+
+    return {
+        toolName,
+        sender: transaction.rawTransaction.sender.toString(),
+        token,
+        transfers: request.deposits.map(deposit => ({
+            recipient: deposit.recipient,
+            amount: `${formatUnits(deposit.amount, token?.decimals)}${symbol}`
+        })),
+        total: request.deposits.length > 1 ? `${formatUnits(total, token?.decimals)}${symbol}` : undefined,
+        duration,
+        streamIds: request.streamIds,
+        maxGasFee: `${Number(maxGasFeeOctas(transaction)) / OCTAS_PER_APT} APT`
+    };
+}
+
+/**
+ * Render a summary as the text shown to the human
+ */
+export function formatOperationSummary(summary: OperationSummary): string {
+    const lines = [`操作: ${summary.toolName}`, `发送方: ${summary.sender}`];
+    for (const transfer of summary.transfers) {
+        lines.push(`接收方: ${transfer.recipient}  金额: ${transfer.amount}`);
+    }
+    if (summary.total) {
+        lines.push(`总金额: ${summary.total}`);
+    }
+    if (summary.duration) {
+        lines.push(`持续时间: ${summary.duration}`);
+    }
+    if (summary.streamIds.length > 0) {
+        lines.push(`流ID: ${summary.streamIds.join(', ')}`);
+    }
+    lines.push(`最高Gas费用: ${summary.maxGasFee}`);
+    return lines.join('\n');
+}
+
+/**
+ * Asks a human to approve server-signed transactions: through MCP elicitation when the client
+ * supports it, otherwise with a one-time code written to the server log that the user must supply
+ */
+export class ApprovalService {
+    private pendingCodes = new Map<string, PendingCode>();
+
+    constructor(private rule: ApprovalRule) {}
+
+    /**
+     * Whether a tool call needs approval under the configured rule
+     */
+    requiresApproval(toolName: string, request: PolicyRequest): boolean {
+        if (this.rule.tools !== '*' && !this.rule.tools.includes(toolName)) {
+            return false;
+        }
+        if (request.deposits.length > 0) {
+            const total = request.deposits.reduce((sum, deposit) => sum + deposit.amount, 0n);
+            return total >= this.rule.minAmount;
+        }
+        return true;
+    }
+
+    /**
+     * Ask for approval of a prepared transaction
+     * @param server The MCP server connected to the client, used for elicitation
+     */
+    async requestApproval(
+        server: Server | undefined,
+        transactionId: string,
+        summary: OperationSummary,
+        toolName: string,
+        args: any
+    ): Promise<ApprovalDecision> {
+        const capabilities = server?.getClientCapabilities() as Record<string, unknown> | undefined;
+        if (server && capabilities?.elicitation) {
+            try {
+                const response = await server.request(
+                    {
+                        method: 'elicitation/create',
+                        params: {
+                            message: `请确认是否签名并提交以下交易:\n\n${formatOperationSummary(summary)}`,
+                            requestedSchema: {
+                                type: 'object',
+                                properties: {
+                                    approve: { type: 'boolean', title: '批准此交易', default: false }
+                                },
+                                required: ['approve']
+                            }
+                        }
+                    } as any,
+                    ResultSchema,
+                    { timeout: this.rule.timeoutSeconds * 1000 }
+                );
+                const result = elicitResultSchema.parse(response);
+                if (result.action === 'accept' && result.content?.approve === true) {
+                    return { status: 'approved' };
+                }
+                return { status: 'rejected', reason: result.action === 'accept' ? '用户未批准' : `用户${result.action === 'decline' ? '拒绝' : '取消'}了确认` };
+            } catch (error: any) {
+                return { status: 'rejected', reason: `确认请求失败: ${error.message || "未知错误"}` };
+            }
+        }
+
+        // Without elicitation the code reaches the human out of band, never through the assistant
+        const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+        const expiresAt = Date.now() + this.rule.timeoutSeconds * 1000;
+        this.pendingCodes.set(transactionId, { codeHash: hashCode(code), toolName, args, expiresAt, attempts: 0 });
+        console.error(`\n[交易确认] 交易ID ${transactionId} 的确认码: ${code}\n${formatOperationSummary(summary)}\n`);
+        return { status: 'code_required', expiresAt };
+    }
+
+    /**
+     * Check a confirmation code
+     * @returns The tool call the code approves
+     * @throws Error if there is no pending code, it expired, or it is wrong too many times
+     */
+    verifyCode(transactionId: string, code: string): { toolName: string; args: any } {
+        const pending = this.pendingCodes.get(transactionId);
+        if (!pending) {
+            throw new Error(`交易 ${transactionId} 没有等待确认的确认码`);
+        }
+        if (Date.now() > pending.expiresAt) {
+            this.pendingCodes.delete(transactionId);
+            throw new Error(`交易 ${transactionId} 的确认码已过期`);
+        }
+
+        const candidate = hashCode(code.trim());
+        if (!crypto.timingSafeEqual(candidate, pending.codeHash)) {
+            pending.attempts++;
+            if (pending.attempts >= MAX_CODE_ATTEMPTS) {
+                this.pendingCodes.delete(transactionId);
+                throw new Error(`确认码错误次数过多，交易 ${transactionId} 的确认已作废`);
+            }
+            throw new Error(`确认码错误，还可尝试 ${MAX_CODE_ATTEMPTS - pending.attempts} 次`);
+        }
+
+        this.pendingCodes.delete(transactionId);
+        return { toolName: pending.toolName, args: pending.args };
+    }
+
+    /**
+     * Whether a transaction is waiting for its confirmation code
+     */
+    hasPendingCode(transactionId: string): boolean {
+        return this.pendingCodes.has(transactionId);
+    }
+
+    /**
+     * Forget the code of a transaction that will not be confirmed
+     */
+    discard(transactionId: string): void {
+        this.pendingCodes.delete(transactionId);
+    }
+}
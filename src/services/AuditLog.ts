@@ -0,0 +1,170 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { canonicalJson } from "../utils.js";
+
+// prevHash of the first entry
+const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * One write-tool invocation, chained to the previous entry by prevHash
+ */
+export interface AuditEntry {
+    seq: number;
+    timestamp: string;
+    toolName: string;
+    args: Record<string, unknown>;
+    transactionId?: string;
+    hash?: string;
+    streamIds: string[];
+    signingMode: string;
+    outcome: string;
+    error?: string;
+    prevHash: string;
+    entryHash: string;
+}
+
+export type AuditEntryInput = Omit<AuditEntry, 'seq' | 'timestamp' | 'prevHash' | 'entryHash'>;
+
+/**
+ * Filters for reading the audit log; all are optional
+ */
+export interface AuditLogFilter {
+    streamId?: string;
+    toolName?: string;
+    since?: number;
+    until?: number;
+    limit?: number;
+}
+
+/**
+ * Result of checking the hash chain
+ */
+export interface AuditVerification {
+    valid: boolean;
+    entries: number;
+    // First line (1-based) that breaks the chain
+    brokenAt?: { line: number; reason: string };
+}
+
+function computeEntryHash(entry: Omit<AuditEntry, 'entryHash'>): string {
+    return crypto.createHash('sha256').update(canonicalJson(entry)).digest('hex');
+}
+
+async function readLines(filePath: string): Promise<string[]> {
+    try {
+        const content = await fs.promises.readFile(filePath, 'utf8');
+        return content.split('\n').filter(line => line.trim() !== '');
+    } catch (error: any) {
+        if (error.code === 'ENOENT') {
+            return [];
+        }
+        throw error;
+    }
+}
+
+/**
+ * Walk the hash chain of an audit log file
+ * Detects edited, inserted, removed or reordered entries; truncating the newest entries
+ * is only detectable against a previously recorded head hash.
+ */
+export async function verifyAuditLog(filePath: string): Promise<AuditVerification & { headHash: string }> {
+    const lines = await readLines(filePath);
+    let prevHash = GENESIS_HASH;
+
+    for (let index = 0; index < lines.length; index++) {
+        const line = index + 1;
+        let entry: AuditEntry;
+        try {
+            entry = JSON.parse(lines[index]);
+        } catch {
+            return { valid: false, entries: lines.length, headHash: prevHash, brokenAt: { line, reason: 'not valid JSON' } };
+        }
+
+        const { entryHash, ...rest } = entry;
+        if (entry.seq !== index) {
+            return { valid: false, entries: lines.length, headHash: prevHash, brokenAt: { line, reason: `expected seq ${index}, found ${entry.seq}` } };
+        }
+        if (entry.prevHash !== prevHash) {
+            return { valid: false, entries: lines.length, headHash: prevHash, brokenAt: { line, reason: 'prevHash does not match the previous entry' } };
+        }
+        if (computeEntryHash(rest) !== entryHash) {
+            return { valid: false, entries: lines.length, headHash: prevHash, brokenAt: { line, reason: 'entry content does not match its hash' } };
+        }
+        prevHash = entryHash;
+    }
+
+    return { valid: true, entries: lines.length, headHash: prevHash };
+}
+
+/**
+ * Append-only JSONL log of write-tool invocations, each entry hash-chained to the previous one
+ */
+export class AuditLog {
+    private filePath: string;
+    private nextSeq = 0;
+    private lastHash = GENESIS_HASH;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    getFilePath(): string {
+        return this.filePath;
+    }
+
+    /**
+     * Pick up the chain where the existing file ends
+     */
+    async load(): Promise<number> {
+        const lines = await readLines(this.filePath);
+        if (lines.length > 0) {
+            const last: AuditEntry = JSON.parse(lines[lines.length - 1]);
+            this.nextSeq = last.seq + 1;
+            this.lastHash = last.entryHash;
+        }
+        return lines.length;
+    }
+
+    /**
+     * Append an entry; entries are written one at a time in call order
+     */
+    append(input: AuditEntryInput): Promise<AuditEntry> {
+        // Round-trip through JSON so the hash covers exactly what is written
+        const normalized: AuditEntryInput = JSON.parse(JSON.stringify(input));
+        const result = this.writeQueue.catch(() => undefined).then(async () => {
+            const unhashed: Omit<AuditEntry, 'entryHash'> = {
+                seq: this.nextSeq,
+                timestamp: new Date().toISOString(),
+                ...normalized,
+                prevHash: this.lastHash
+            };
+            const entry: AuditEntry = { ...unhashed, entryHash: computeEntryHash(unhashed) };
+
+            await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.promises.appendFile(this.filePath, `${JSON.stringify(entry)}\n`, { encoding: 'utf8', mode: 0o600 });
+
+            this.nextSeq = entry.seq + 1;
+            this.lastHash = entry.entryHash;
+            return entry;
+        });
+        this.writeQueue = result.then(() => undefined);
+        return result;
+    }
+
+    /**
+     * Read entries matching a filter, newest first
+     */
+    async query(filter: AuditLogFilter = {}): Promise<AuditEntry[]> {
+        const entries = (await readLines(this.filePath)).map(line => JSON.parse(line) as AuditEntry);
+        const matches = entries.filter(entry => {
+            const at = Date.parse(entry.timestamp);
+            return (!filter.toolName || entry.toolName === filter.toolName)
+                && (!filter.streamId || entry.streamIds.includes(filter.streamId))
+                && (filter.since === undefined || at >= filter.since)
+                && (filter.until === undefined || at <= filter.until);
+        }).reverse();
+        return filter.limit ? matches.slice(0, filter.limit) : matches;
+    }
+}
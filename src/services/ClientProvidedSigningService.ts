@@ -1,5 +1,25 @@
 import { aptos } from "@moveflow/aptos-sdk";
+import { Account, AccountAddress, AccountPublicKey, SimpleTransaction } from "@aptos-labs/ts-sdk";
 import { TransactionSigningService } from "./TransactionSigningService.js";
+import {
+    ClientSignedData,
+    SignatureVerificationError,
+    buildAccountAuthenticator,
+    computeTransactionHash,
+    verifyClientSignature
+} from "./SignatureAuthenticator.js";
+import { transactionProxyService } from "./TransactionProxyService.js";
+import { TransactionState, isOutstandingState } from "./TransactionLifecycle.js";
+import { SponsorshipBudget, SponsorshipBudgetError, maxGasFeeOctas } from "./SponsorshipBudget.js";
+import { SequenceNumberManager } from "./SequenceNumberManager.js";
+
+/**
+ * Fee payer used to sponsor client-signed transactions
+ */
+export interface TransactionSponsor {
+    account: Account;
+    budget: SponsorshipBudget;
+}
 
 /**
  * Implementation of TransactionSigningService that uses the Aptos client
@@ -8,19 +28,51 @@ import { TransactionSigningService } from "./TransactionSigningService.js";
 export class ClientProvidedSigningService implements TransactionSigningService {
     private aptosClient: aptos.Aptos;
     private readOnlyMode: boolean;
-
-    // Store pending transactions for client-side signing
-    private pendingTransactions = new Map<string, {
-        transaction: aptos.SimpleTransaction,
-        timestamp: number
-    }>();
-
-    constructor(aptosClient: aptos.Aptos, readOnlyMode: boolean = false) {
+    private sponsor?: TransactionSponsor;
+    private sequenceNumbers?: SequenceNumberManager;
+
+    constructor(
+        aptosClient: aptos.Aptos,
+        readOnlyMode: boolean = false,
+        sponsor?: TransactionSponsor,
+        sequenceNumbers?: SequenceNumberManager
+    ) {
         this.aptosClient = aptosClient;
         this.readOnlyMode = readOnlyMode;
+        this.sponsor = sponsor;
+        this.sequenceNumbers = sequenceNumbers;
+    }
+
+    /**
+     * Rebuild a transaction with the sponsor as fee payer and its max gas amount capped, if sponsorship
+     * is configured and the sender still has budget left. The sender then signs the fee payer variant.
+     * @param transaction The transaction prepared for client signing
+     * @returns The transaction to hand to the client and whether it is sponsored
+     */
+    sponsorTransaction(transaction: aptos.SimpleTransaction): {
+        transaction: aptos.SimpleTransaction;
+        sponsored: boolean;
+        reason?: string;
+    } {
+        if (!this.sponsor) {
+            return { transaction, sponsored: false };
+        }
+
+        // The budgets are charged the max gas fee, so it is capped before the check
+        const capped = this.sponsor.budget.limitGas(transaction);
+        try {
+            this.sponsor.budget.check(capped);
+        } catch (error) {
+            if (error instanceof SponsorshipBudgetError) {
+                return { transaction, sponsored: false, reason: error.message };
+            }
+            throw error;
+        }
 
-        // Start cleanup task to remove expired transactions
-        this.startCleanupTask();
+        return {
+            transaction: new SimpleTransaction(capped.rawTransaction, this.sponsor.account.accountAddress),
+            sponsored: true
+        };
     }
 
     /**
@@ -31,12 +83,8 @@ export class ClientProvidedSigningService implements TransactionSigningService {
      */
     async signAndSubmitTransaction(transaction: aptos.SimpleTransaction, execute: boolean, signer?: aptos.Account): Promise<any> {
         if (!execute) {
-            // In this case, we store the transaction for potential future signing by the client
-            const transactionId = this.generateTransactionId();
-            this.pendingTransactions.set(transactionId, {
-                transaction,
-                timestamp: Date.now()
-            });
+            // In this case, we hand the transaction to the client for signing
+            const { transactionId } = await transactionProxyService.submitTransaction(transaction);
 
             // Return the transaction with its ID for client reference
             return {
@@ -54,12 +102,15 @@ export class ClientProvidedSigningService implements TransactionSigningService {
             throw new Error("No signer account provided for transaction execution.");
         }
 
-        // Notify the client to sign the transaction
+        // Sign and submit through the sender's queue so concurrent calls get distinct sequence numbers
         try {
-            const pendingTxn = await this.aptosClient.signAndSubmitTransaction({
+            const send = (queued: aptos.SimpleTransaction) => this.aptosClient.signAndSubmitTransaction({
                 signer: signer,
-                transaction: transaction
+                transaction: queued
             });
+            const pendingTxn = this.sequenceNumbers
+                ? await this.sequenceNumbers.submit(transaction, send)
+                : await send(transaction);
             return pendingTxn;
         } catch (error) {
             console.error("Error submitting transaction:", error);
@@ -70,93 +121,101 @@ export class ClientProvidedSigningService implements TransactionSigningService {
     /**
      * Submit a client-signed transaction
      * @param transactionId The ID of the transaction
-     * @param signedData The signed data containing signature, public key, and optional transaction hash
+     * @param signedData The typed signature, sender address and optional expected transaction hash
      * @returns The transaction response
      */
-    async submitSignedTransaction(
-        transactionId: string,
-        signedData: {
-            signature: string,
-            public_key: string,
-            sender: string,
-            transaction_hash?: string
-        }
-    ): Promise<any> {
-        // Check if the transaction exists in our pending map
-        const pendingTx = this.pendingTransactions.get(transactionId);
+    async submitSignedTransaction(transactionId: string, signedData: ClientSignedData): Promise<any> {
+        // Check if the transaction is still waiting for a signature
+        const pendingTx = transactionProxyService.getTransaction(transactionId);
         if (!pendingTx) {
-            throw new Error(`Transaction with ID ${transactionId} not found or expired`);
+            throw new Error(`Transaction with ID ${transactionId} not found`);
+        }
+        if (!isOutstandingState(pendingTx.state)) {
+            throw new Error(`Transaction with ID ${transactionId} is ${pendingTx.state} and can no longer be submitted`);
         }
 
-        try {
-            // Get the transaction
-            const transaction = pendingTx.transaction;
+        const transaction = pendingTx.transaction;
+        const sender = transaction.rawTransaction.sender;
 
-            // Debug information
-            console.log("Transaction type:", typeof transaction);
+        if (!AccountAddress.from(signedData.sender).equals(AccountAddress.from(sender.toString()))) {
+            throw new SignatureVerificationError(
+                `Signed sender ${signedData.sender} does not match transaction sender ${sender.toString()}`
+            );
+        }
 
-            // Create a temp account with just the address for submission
-            const tempAccount = {
-                accountAddress: signedData.sender,
-                publicKey: () => ({ toUint8Array: () => Buffer.from(signedData.public_key.replace(/^0x/, ''), 'hex') }),
-                sign: () => Buffer.from(signedData.signature.replace(/^0x/, ''), 'hex'),
-            };
+        // Build the authenticator for the declared scheme and verify it locally before anything goes to the node
+        const { authenticator, publicKey } = buildAccountAuthenticator(signedData);
+        if (!verifyClientSignature(transaction, signedData)) {
+            throw new SignatureVerificationError(
+                `The ${signedData.scheme} signature does not match the signing message of transaction ${transactionId}`
+            );
+        }
+        await this.verifyAuthenticationKey(sender.toString(), publicKey);
+
+        // Sponsored transactions are charged to the budget and co-signed by the fee payer
+        const sponsored = !!transaction.feePayerAddress;
+        const releaseReservation = sponsored
+            ? this.reserveSponsorship(transactionId, transaction)
+            : undefined;
+
+        try {
+            const feePayerAuthenticator = sponsored && this.sponsor
+                ? this.aptosClient.transaction.signAsFeePayer({ signer: this.sponsor.account, transaction })
+                : undefined;
+
+            const expectedHash = computeTransactionHash(transaction, authenticator, feePayerAuthenticator);
+            if (signedData.transaction_hash && signedData.transaction_hash.toLowerCase() !== expectedHash.toLowerCase()) {
+                throw new SignatureVerificationError(
+                    `Provided transaction hash ${signedData.transaction_hash} does not match the computed hash ${expectedHash}`
+                );
+            }
 
-            // Use the main Aptos signAndSubmitTransaction method
-            const response = await this.aptosClient.signAndSubmitTransaction({
-                signer: tempAccount as any,
-                transaction: transaction,
+            const response = await this.aptosClient.transaction.submit.simple({
+                transaction,
+                senderAuthenticator: authenticator,
+                feePayerAuthenticator
             });
 
-            // Remove the transaction from pending transactions
-            this.pendingTransactions.delete(transactionId);
+            await transactionProxyService.markSubmitted(transactionId, response.hash, {
+                sponsoredFeeOctas: sponsored ? maxGasFeeOctas(transaction).toString() : undefined
+            });
 
             return response;
         } catch (error) {
             console.error(`Error submitting signed transaction ${transactionId}:`, error);
-            console.error("Error details:", error instanceof Error ? error.message : String(error));
-
-            // Last attempt - try creating an authenticator object directly for the API
-            try {
-                console.log("Trying final submission method...");
-
-                // Based on the SDK signature from transaction.d.mts, we need to construct a proper authenticator
-                // Import the AccountAuthenticator class if available
-                const { AccountAuthenticator } = require('@aptos-labs/ts-sdk');
-
-                // Create authenticator from the signature data
-                const senderAuthenticator = new AccountAuthenticator(
-                    'ed25519_signature',
-                    Buffer.from(signedData.public_key.replace(/^0x/, ''), 'hex'),
-                    Buffer.from(signedData.signature.replace(/^0x/, ''), 'hex')
-                );
-
-                // Use the correctly structured submit method with senderAuthenticator
-                const response = await this.aptosClient.transaction.submit.simple({
-                    transaction: pendingTx.transaction,
-                    senderAuthenticator: senderAuthenticator
-                });
-
-                this.pendingTransactions.delete(transactionId);
-                return response;
-            } catch (finalError) {
-                console.error("Final submission attempt failed:", finalError);
-
-                // For debugging only - show available methods
-                console.log("Available Aptos client methods:",
-                    Object.getOwnPropertyNames(this.aptosClient));
+            throw error;
+        } finally {
+            releaseReservation?.();
+        }
+    }
 
-                console.log("Available transaction methods:",
-                    Object.getOwnPropertyNames(this.aptosClient.transaction));
+    /**
+     * Check that this server is the fee payer of a transaction and hold its fee against the budgets
+     */
+    private reserveSponsorship(transactionId: string, transaction: aptos.SimpleTransaction): () => void {
+        const feePayer = transaction.feePayerAddress as AccountAddress;
+        if (!this.sponsor || !AccountAddress.from(feePayer.toString()).equals(this.sponsor.account.accountAddress)) {
+            throw new Error(`Transaction ${transactionId} is sponsored by ${feePayer.toString()}, which is not the configured sponsor account`);
+        }
+        return this.sponsor.budget.reserve(transactionId, transaction);
+    }
 
-                console.log("Available submit methods:",
-                    this.aptosClient.transaction.submit ?
-                        Object.getOwnPropertyNames(this.aptosClient.transaction.submit) :
-                        "No submit methods available");
+    /**
+     * Check that the public key controls the sender account.
+     * Accounts whose key was rotated no longer derive their address from the key,
+     * so the on-chain authentication key is consulted in that case.
+     */
+    async verifyAuthenticationKey(sender: string, publicKey: AccountPublicKey): Promise<void> {
+        const authKey = publicKey.authKey();
+        if (AccountAddress.from(authKey.derivedAddress().toString()).equals(AccountAddress.from(sender))) {
+            return;
+        }
 
-                // Throw the original error
-                throw error;
-            }
+        const accountInfo = await this.aptosClient.getAccountInfo({ accountAddress: sender });
+        if (accountInfo.authentication_key.toLowerCase() !== authKey.toString().toLowerCase()) {
+            throw new SignatureVerificationError(
+                `Public key does not match the authentication key of sender ${sender}`
+            );
         }
     }
 
@@ -169,8 +228,9 @@ export class ClientProvidedSigningService implements TransactionSigningService {
         found: boolean;
         transaction?: aptos.SimpleTransaction;
         age?: number;
+        state?: TransactionState;
     } {
-        const pendingTx = this.pendingTransactions.get(transactionId);
+        const pendingTx = transactionProxyService.getTransaction(transactionId);
         if (!pendingTx) {
             return { found: false };
         }
@@ -178,42 +238,8 @@ export class ClientProvidedSigningService implements TransactionSigningService {
         return {
             found: true,
             transaction: pendingTx.transaction,
-            age: Date.now() - pendingTx.timestamp
+            age: Date.now() - pendingTx.createdAt,
+            state: pendingTx.state
         };
     }
-
-    /**
-     * Generate a unique transaction ID
-     * @returns A unique transaction ID
-     */
-    private generateTransactionId(): string {
-        const randomPart = Math.random().toString(36).substring(2, 10);
-        return `tx_${Date.now()}_${randomPart}`;
-    }
-
-    /**
-     * Start a periodic cleanup task to remove expired transactions
-     * Transactions older than 10 minutes will be removed
-     */
-    private startCleanupTask(): void {
-        const CLEANUP_INTERVAL = 60000; // 1 minute
-        const MAX_TX_AGE = 600000; // 10 minutes
-
-        setInterval(() => {
-            const now = Date.now();
-            let expiredCount = 0;
-
-            // Check each transaction
-            for (const [txId, txData] of this.pendingTransactions.entries()) {
-                if (now - txData.timestamp > MAX_TX_AGE) {
-                    this.pendingTransactions.delete(txId);
-                    expiredCount++;
-                }
-            }
-
-            if (expiredCount > 0) {
-                console.log(`Cleaned up ${expiredCount} expired transaction(s)`);
-            }
-        }, CLEANUP_INTERVAL);
-    }
 }
@@ -0,0 +1,316 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+// Longest wait between two attempts, whatever the backoff or Retry-After says
+const MAX_BACKOFF_MS = 10000;
+
+// Hop-by-hop headers and headers fetch manages itself
+const SKIPPED_REQUEST_HEADERS = new Set(['host', 'connection', 'content-length', 'accept-encoding', 'transfer-encoding']);
+const SKIPPED_RESPONSE_HEADERS = new Set(['connection', 'content-length', 'content-encoding', 'transfer-encoding', 'keep-alive']);
+
+/**
+ * Retry, timeout and circuit breaker settings for a set of fullnodes
+ */
+export interface FullnodeFailoverOptions {
+    // Fullnode base URLs in order of preference
+    urls: string[];
+    timeoutMs: number;
+    // Extra attempts for idempotent requests
+    maxRetries: number;
+    baseDelayMs: number;
+    // Consecutive failures that open an endpoint's circuit
+    failureThreshold: number;
+    // How long an open circuit stays open before one trial request is let through
+    cooldownMs: number;
+}
+
+/**
+ * Health of one fullnode endpoint
+ */
+export interface FullnodeEndpointStatus {
+    url: string;
+    circuit: 'closed' | 'open' | 'half_open';
+    consecutiveFailures: number;
+    requests: number;
+    failures: number;
+    openUntil?: string;
+    lastError?: string;
+}
+
+interface Endpoint {
+    url: string;
+    circuit: 'closed' | 'open' | 'half_open';
+    consecutiveFailures: number;
+    requests: number;
+    failures: number;
+    openUntil: number;
+    // A half-open circuit lets a single trial request through
+    probing: boolean;
+    lastError?: string;
+}
+
+/**
+ * A request forwarded to the fullnodes, as received from the Aptos client
+ */
+export interface FullnodeRequest {
+    method: string;
+    // Path and query after the node base URL
+    path: string;
+    headers: Record<string, string>;
+    body?: Buffer;
+}
+
+export interface FullnodeResponse {
+    status: number;
+    headers: Record<string, string>;
+    body: Buffer;
+}
+
+/**
+ * Raised when no fullnode could answer a request
+ */
+export class FullnodeUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FullnodeUnavailableError';
+    }
+}
+
+/**
+ * Whether a request only reads chain state and can safely be sent again
+ */
+export function isIdempotentRequest(method: string, path: string): boolean {
+    if (method === 'GET' || method === 'HEAD') {
+        return true;
+    }
+    // View calls and simulations are POSTs that do not change chain state
+    return method === 'POST' && /\/view(\?|$)|\/transactions\/simulate/.test(path);
+}
+
+function isRetryableStatus(status: number): boolean {
+    return status === 429 || status >= 500;
+}
+
+// The request never reached the node, so even a submission can go to another one
+function isConnectionRefused(error: any): boolean {
+    return error?.cause?.code === 'ECONNREFUSED';
+}
+
+function retryAfterMs(response?: FullnodeResponse): number {
+    const value = response?.headers['retry-after'];
+    const seconds = value !== undefined ? Number(value) : NaN;
+    return Number.isFinite(seconds) ? seconds * 1000 : 0;
+}
+
+/**
+ * Sends fullnode requests to the healthiest of several endpoints. Idempotent reads are retried
+ * with exponential backoff on timeouts, network errors, 429 and 5xx responses, moving to the next
+ * endpoint each time. Each endpoint has a circuit breaker that takes it out of rotation after
+ * repeated failures and lets a trial request through once the cooldown has passed.
+ */
+export class FullnodePool {
+    private endpoints: Endpoint[];
+
+    constructor(private options: FullnodeFailoverOptions) {
+        if (options.urls.length === 0) {
+            throw new Error('At least one fullnode URL is required');
+        }
+        this.endpoints = options.urls.map(url => ({
+            url: url.replace(/\/+$/, ''),
+            circuit: 'closed',
+            consecutiveFailures: 0,
+            requests: 0,
+            failures: 0,
+            openUntil: 0,
+            probing: false
+        }));
+    }
+
+    /**
+     * Send a request, retrying and failing over as allowed for its kind
+     * @returns The first usable response, or the last 429/5xx response when every attempt failed that way
+     * @throws FullnodeUnavailableError if no endpoint answered at all
+     */
+    async send(request: FullnodeRequest): Promise<FullnodeResponse> {
+        const idempotent = isIdempotentRequest(request.method, request.path);
+        // Other requests only move to the next endpoint when they never reached a node
+        const attempts = idempotent ? this.options.maxRetries + 1 : this.endpoints.length;
+        let lastResponse: FullnodeResponse | undefined;
+        let lastError: string | undefined;
+
+        for (let attempt = 0; attempt < attempts; attempt++) {
+            if (attempt > 0 && idempotent) {
+                const backoff = this.options.baseDelayMs * 2 ** (attempt - 1) * (0.5 + Math.random() / 2);
+                await new Promise(resolve => setTimeout(resolve, Math.min(Math.max(backoff, retryAfterMs(lastResponse)), MAX_BACKOFF_MS)));
+            }
+
+            const endpoint = this.pickEndpoint();
+            if (!endpoint) {
+                lastError = 'every fullnode circuit is open';
+                continue;
+            }
+
+            endpoint.requests++;
+            try {
+                const response = await fetch(`${endpoint.url}${request.path}`, {
+                    method: request.method,
+                    headers: request.headers,
+                    body: request.body && request.body.length > 0 ? request.body : undefined,
+                    signal: AbortSignal.timeout(this.options.timeoutMs)
+                });
+                const result: FullnodeResponse = {
+                    status: response.status,
+                    headers: Object.fromEntries(response.headers.entries()),
+                    body: Buffer.from(await response.arrayBuffer())
+                };
+                if (!isRetryableStatus(response.status)) {
+                    this.recordSuccess(endpoint);
+                    return result;
+                }
+                this.recordFailure(endpoint, `HTTP ${response.status}`);
+                lastResponse = result;
+                if (!idempotent) {
+                    break;
+                }
+            } catch (error: any) {
+                // fetch reports network errors as "fetch failed" with the reason in the cause
+                const reason = error?.name === 'TimeoutError' ? 'timeout' : error?.cause?.code || error.message || String(error);
+                this.recordFailure(endpoint, reason);
+                lastError = `${endpoint.url}: ${reason}`;
+                if (!idempotent && !isConnectionRefused(error)) {
+                    break;
+                }
+            }
+        }
+
+        if (lastResponse) {
+            return lastResponse;
+        }
+        throw new FullnodeUnavailableError(`No fullnode answered ${request.method} ${request.path}: ${lastError}`);
+    }
+
+    /**
+     * Health of every endpoint
+     */
+    getStatus(): FullnodeEndpointStatus[] {
+        return this.endpoints.map(endpoint => ({
+            url: endpoint.url,
+            circuit: endpoint.circuit,
+            consecutiveFailures: endpoint.consecutiveFailures,
+            requests: endpoint.requests,
+            failures: endpoint.failures,
+            openUntil: endpoint.circuit === 'open' ? new Date(endpoint.openUntil).toISOString() : undefined,
+            lastError: endpoint.lastError
+        }));
+    }
+
+    // A due trial request first, so a recovered endpoint rejoins the rotation;
+    // then closed circuits with the fewest recent failures, in configured order
+    private pickEndpoint(): Endpoint | null {
+        const now = Date.now();
+        for (const endpoint of this.endpoints) {
+            if (endpoint.circuit === 'open' && now >= endpoint.openUntil) {
+                endpoint.circuit = 'half_open';
+                endpoint.probing = false;
+            }
+        }
+
+        const trial = this.endpoints.find(endpoint => endpoint.circuit === 'half_open' && !endpoint.probing);
+        if (trial) {
+            trial.probing = true;
+            return trial;
+        }
+
+        const closed = this.endpoints
+            .filter(endpoint => endpoint.circuit === 'closed')
+            .sort((a, b) => a.consecutiveFailures - b.consecutiveFailures);
+        return closed[0] ?? null;
+    }
+
+    private recordSuccess(endpoint: Endpoint): void {
+        endpoint.circuit = 'closed';
+        endpoint.consecutiveFailures = 0;
+        endpoint.probing = false;
+    }
+
+    private recordFailure(endpoint: Endpoint, reason: string): void {
+        endpoint.failures++;
+        endpoint.consecutiveFailures++;
+        endpoint.lastError = reason;
+        endpoint.probing = false;
+        if (endpoint.circuit === 'half_open' || endpoint.consecutiveFailures >= this.options.failureThreshold) {
+            endpoint.circuit = 'open';
+            endpoint.openUntil = Date.now() + this.options.cooldownMs;
+        }
+    }
+}
+
+/**
+ * Local HTTP endpoint that forwards fullnode requests through a FullnodePool. The Aptos client
+ * and the MoveFlow Stream only take a node URL, so both are pointed here to share the pool.
+ * Listens on the loopback interface only.
+ */
+export class FullnodeProxy {
+    private server: http.Server | null = null;
+
+    constructor(private pool: FullnodePool) {}
+
+    /**
+     * Start listening on a free loopback port
+     * @returns The base URL to use as the node URL
+     */
+    async start(): Promise<string> {
+        const server = http.createServer((req, res) => {
+            this.handle(req, res).catch(error => {
+                res.writeHead(502, { 'content-type': 'application/json' });
+                res.end(JSON.stringify({ message: error.message || String(error), error_code: 'fullnode_unavailable' }));
+            });
+        });
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(0, '127.0.0.1', () => resolve());
+        });
+        // The proxy alone never keeps the process alive
+        server.unref();
+        this.server = server;
+        return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    }
+
+    async stop(): Promise<void> {
+        const server = this.server;
+        this.server = null;
+        if (server) {
+            await new Promise<void>(resolve => server.close(() => resolve()));
+        }
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) {
+            chunks.push(chunk as Buffer);
+        }
+
+        const headers: Record<string, string> = {};
+        for (const [name, value] of Object.entries(req.headers)) {
+            if (value !== undefined && !SKIPPED_REQUEST_HEADERS.has(name)) {
+                headers[name] = Array.isArray(value) ? value.join(', ') : value;
+            }
+        }
+
+        const response = await this.pool.send({
+            method: req.method || 'GET',
+            path: req.url || '/',
+            headers,
+            body: Buffer.concat(chunks)
+        });
+
+        const responseHeaders: Record<string, string> = {};
+        for (const [name, value] of Object.entries(response.headers)) {
+            if (!SKIPPED_RESPONSE_HEADERS.has(name)) {
+                responseHeaders[name] = value;
+            }
+        }
+        res.writeHead(response.status, responseHeaders);
+        res.end(response.body);
+    }
+}
@@ -0,0 +1,148 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { canonicalJson, serialize } from "../utils.js";
+
+/**
+ * A remembered write-tool call and the response it produced
+ */
+export interface IdempotencyRecord {
+    key: string;
+    toolName: string;
+    argsHash: string;
+    status: 'in_progress' | 'completed';
+    transactionId?: string;
+    hash?: string;
+    response?: { content: Array<{ type: "text", text: string }>; isError?: boolean };
+    createdAt: number;
+}
+
+/**
+ * Raised when a key is reused for a different call, or while its first call is still running
+ */
+export class IdempotencyConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'IdempotencyConflictError';
+    }
+}
+
+/**
+ * Hash of a tool call, ignoring the idempotency key itself
+ */
+export function hashToolArguments(toolName: string, args: any): string {
+    const { idempotencyKey: _, ...rest } = serialize(args ?? {});
+    return crypto.createHash('sha256').update(canonicalJson({ toolName, args: rest })).digest('hex');
+}
+
+/**
+ * Remembers the result of write-tool calls by idempotency key for a window,
+ * so a retried call returns the original result instead of sending another transaction
+ */
+export class IdempotencyStore {
+    private records = new Map<string, IdempotencyRecord>();
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(private filePath: string | null, private windowMs: number) {}
+
+    /**
+     * Load remembered calls; calls that were still running when the server stopped are dropped
+     */
+    async load(): Promise<number> {
+        if (!this.filePath) {
+            return 0;
+        }
+        try {
+            const records: IdempotencyRecord[] = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+            for (const record of records) {
+                if (record.status === 'completed') {
+                    this.records.set(record.key, record);
+                }
+            }
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                throw error;
+            }
+        }
+        this.purgeExpired();
+        return this.records.size;
+    }
+
+    /**
+     * Claim a key for a call
+     * @returns The earlier record when the same call was already made, or null when the caller should run it
+     * @throws IdempotencyConflictError if the key belongs to a different call or its first call is still running
+     */
+    begin(key: string, toolName: string, args: any): IdempotencyRecord | null {
+        this.purgeExpired();
+        const argsHash = hashToolArguments(toolName, args);
+        const existing = this.records.get(key);
+
+        if (existing) {
+            if (existing.argsHash !== argsHash) {
+                throw new IdempotencyConflictError(
+                    `Idempotency key '${key}' was already used for a different ${existing.toolName} call`
+                );
+            }
+            if (existing.status === 'in_progress') {
+                throw new IdempotencyConflictError(`A call with idempotency key '${key}' is still in progress`);
+            }
+            return existing;
+        }
+
+        this.records.set(key, { key, toolName, argsHash, status: 'in_progress', createdAt: Date.now() });
+        return null;
+    }
+
+    /**
+     * Remember the result of a claimed call
+     */
+    async complete(
+        key: string,
+        result: { transactionId?: string; hash?: string; response: IdempotencyRecord['response'] }
+    ): Promise<void> {
+        const record = this.records.get(key);
+        if (!record) {
+            return;
+        }
+        Object.assign(record, result, { status: 'completed' });
+        await this.persist();
+    }
+
+    /**
+     * Release a claimed key so the call can be retried (nothing reached the chain)
+     */
+    release(key: string): void {
+        const record = this.records.get(key);
+        if (record?.status === 'in_progress') {
+            this.records.delete(key);
+        }
+    }
+
+    private purgeExpired(): void {
+        const cutoff = Date.now() - this.windowMs;
+        for (const [key, record] of this.records) {
+            if (record.status === 'completed' && record.createdAt < cutoff) {
+                this.records.delete(key);
+            }
+        }
+    }
+
+    private persist(): Promise<void> {
+        const filePath = this.filePath;
+        if (!filePath) {
+            return Promise.resolve();
+        }
+
+        const records = Array.from(this.records.values()).filter(record => record.status === 'completed');
+        this.writeQueue = this.writeQueue
+            .catch(() => undefined)
+            .then(async () => {
+                await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+                const tempPath = `${filePath}.tmp`;
+                await fs.promises.writeFile(tempPath, JSON.stringify(records, null, 2), { encoding: 'utf8', mode: 0o600 });
+                await fs.promises.rename(tempPath, filePath);
+            });
+        return this.writeQueue;
+    }
+}
@@ -0,0 +1,237 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
+
+const KEYSTORE_VERSION = 1;
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 32;
+
+/**
+ * Public information about a keystore account
+ */
+export interface KeystoreAccountInfo {
+    name: string;
+    address: string;
+    publicKey: string;
+    createdAt: string;
+}
+
+/**
+ * A keystore account with its private key encrypted by AES-256-GCM
+ * under a key derived from the passphrase with scrypt
+ */
+interface KeystoreEntry extends KeystoreAccountInfo {
+    crypto: {
+        cipher: 'aes-256-gcm';
+        kdf: 'scrypt';
+        kdfParams: typeof SCRYPT_PARAMS;
+        salt: string;
+        iv: string;
+        authTag: string;
+        ciphertext: string;
+    };
+}
+
+interface KeystoreFile {
+    version: number;
+    accounts: KeystoreEntry[];
+}
+
+/**
+ * Error raised for missing accounts, duplicate names or a wrong passphrase
+ */
+export class KeystoreError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'KeystoreError';
+    }
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: typeof SCRYPT_PARAMS): Buffer {
+    return crypto.scryptSync(passphrase, salt, KEY_LENGTH, params);
+}
+
+/**
+ * Parse a hex Ed25519 private key, with optional "ed25519-priv-" and "0x" prefixes
+ */
+export function parseEd25519PrivateKey(privateKey: string): Ed25519PrivateKey {
+    let rawKey = privateKey.trim();
+    if (rawKey.startsWith('ed25519-priv-')) {
+        rawKey = rawKey.replace('ed25519-priv-', '');
+    }
+    if (rawKey.startsWith('0x')) {
+        rawKey = rawKey.slice(2);
+    }
+    if (rawKey.length !== 64) {
+        throw new KeystoreError(`Private key must be 32 bytes (64 hex characters), got ${rawKey.length} characters`);
+    }
+    return new Ed25519PrivateKey(rawKey);
+}
+
+/**
+ * Encrypted on-disk store of named Ed25519 accounts.
+ * Names and addresses are readable without the passphrase; private keys are not.
+ */
+export class Keystore {
+    private filePath: string;
+    private entries = new Map<string, KeystoreEntry>();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    /**
+     * Load the keystore file
+     * @returns The number of accounts loaded
+     */
+    async load(): Promise<number> {
+        let content: string;
+        try {
+            content = await fs.promises.readFile(this.filePath, 'utf8');
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return 0;
+            }
+            throw error;
+        }
+
+        const file: KeystoreFile = JSON.parse(content);
+        if (file.version !== KEYSTORE_VERSION) {
+            throw new KeystoreError(`Unsupported keystore version ${file.version}`);
+        }
+
+        this.entries.clear();
+        for (const entry of file.accounts) {
+            this.entries.set(entry.name, entry);
+        }
+        return this.entries.size;
+    }
+
+    /**
+     * List the accounts without decrypting them
+     */
+    list(): KeystoreAccountInfo[] {
+        return Array.from(this.entries.values()).map(({ name, address, publicKey, createdAt }) => ({
+            name, address, publicKey, createdAt
+        }));
+    }
+
+    /**
+     * Encrypt and store a private key under a name
+     */
+    async add(name: string, privateKey: Ed25519PrivateKey, passphrase: string): Promise<KeystoreAccountInfo> {
+        if (this.entries.has(name)) {
+            throw new KeystoreError(`Account '${name}' already exists`);
+        }
+
+        const account = Account.fromPrivateKey({ privateKey });
+        const salt = crypto.randomBytes(16);
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt, SCRYPT_PARAMS), iv);
+        const ciphertext = Buffer.concat([cipher.update(Buffer.from(privateKey.toUint8Array())), cipher.final()]);
+
+        const entry: KeystoreEntry = {
+            name,
+            address: account.accountAddress.toString(),
+            publicKey: account.publicKey.toString(),
+            createdAt: new Date().toISOString(),
+            crypto: {
+                cipher: 'aes-256-gcm',
+                kdf: 'scrypt',
+                kdfParams: SCRYPT_PARAMS,
+                salt: salt.toString('hex'),
+                iv: iv.toString('hex'),
+                authTag: cipher.getAuthTag().toString('hex'),
+                ciphertext: ciphertext.toString('hex')
+            }
+        };
+
+        this.entries.set(name, entry);
+        await this.writeFile();
+
+        const { crypto: _, ...info } = entry;
+        return info;
+    }
+
+    /**
+     * Remove an account
+     * @returns Whether the account existed
+     */
+    async remove(name: string): Promise<boolean> {
+        const existed = this.entries.delete(name);
+        if (existed) {
+            await this.writeFile();
+        }
+        return existed;
+    }
+
+    /**
+     * Decrypt one account
+     * @throws KeystoreError if the account does not exist or the passphrase is wrong
+     */
+    unlock(name: string, passphrase: string): Account {
+        const entry = this.entries.get(name);
+        if (!entry) {
+            throw new KeystoreError(`Account '${name}' not found in keystore`);
+        }
+
+        const { salt, iv, authTag, ciphertext, kdfParams } = entry.crypto;
+        let keyBytes: Buffer;
+        try {
+            const decipher = crypto.createDecipheriv(
+                'aes-256-gcm',
+                deriveKey(passphrase, Buffer.from(salt, 'hex'), kdfParams),
+                Buffer.from(iv, 'hex')
+            );
+            decipher.setAuthTag(Buffer.from(authTag, 'hex'));
+            keyBytes = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'hex')), decipher.final()]);
+        } catch {
+            throw new KeystoreError(`Wrong passphrase for account '${name}'`);
+        }
+
+        const account = Account.fromPrivateKey({ privateKey: new Ed25519PrivateKey(keyBytes) });
+        if (account.accountAddress.toString() !== entry.address) {
+            throw new KeystoreError(`Account '${name}' decrypted to a different address than recorded`);
+        }
+        return account;
+    }
+
+    /**
+     * Decrypt every account the passphrase opens.
+     * Accounts that fail to decrypt are skipped and reported, so one account
+     * stored under another passphrase does not lock out the rest.
+     * @returns Accounts by name, and the accounts that could not be decrypted
+     */
+    unlockAll(passphrase: string): {
+        accounts: Map<string, Account>;
+        failed: Array<{ name: string; error: string }>;
+    } {
+        const accounts = new Map<string, Account>();
+        const failed: Array<{ name: string; error: string }> = [];
+        for (const name of this.entries.keys()) {
+            try {
+                accounts.set(name, this.unlock(name, passphrase));
+            } catch (error: any) {
+                if (!(error instanceof KeystoreError)) {
+                    throw error;
+                }
+                failed.push({ name, error: error.message });
+            }
+        }
+        return { accounts, failed };
+    }
+
+    private async writeFile(): Promise<void> {
+        const file: KeystoreFile = {
+            version: KEYSTORE_VERSION,
+            accounts: Array.from(this.entries.values())
+        };
+
+        // Written atomically and readable only by the owner
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify(file, null, 2), { encoding: 'utf8', mode: 0o600 });
+        await fs.promises.rename(tempPath, this.filePath);
+    }
+}
@@ -0,0 +1,386 @@
+import {
+    AccountAddress,
+    Aptos,
+    Deserializer,
+    EntryFunction,
+    Hex,
+    MoveVector,
+    MultiSig,
+    MultiSigTransactionPayload,
+    SimpleTransaction,
+    TransactionPayloadMultiSig,
+    generateRawTransaction
+} from "@aptos-labs/ts-sdk";
+import { StreamHistoryEventKind, classifyStreamAction } from "./StreamHistory.js";
+
+const MULTISIG_MODULE = "0x1::multisig_account";
+
+// The tool a direct call of each MoveFlow action goes through
+const DIRECT_CALL_TOOLS: Partial<Record<StreamHistoryEventKind, string>> = {
+    created: 'create-stream',
+    withdrawn: 'withdraw-stream',
+    closed: 'close-stream',
+    extended: 'extend-stream',
+    paused: 'pause-stream',
+    resumed: 'resume-stream'
+};
+
+const BATCH_CALL_TOOLS: Partial<Record<StreamHistoryEventKind, string>> = {
+    created: 'batch-create-streams',
+    withdrawn: 'batch-withdraw-streams'
+};
+
+/**
+ * Owners and resolution state of an on-chain multisig account
+ */
+export interface MultisigAccountInfo {
+    address: string;
+    owners: string[];
+    signaturesRequired: number;
+    lastResolvedSequenceNumber: string;
+    nextSequenceNumber: string;
+}
+
+/**
+ * A transaction proposed to a multisig account and not resolved yet
+ */
+export interface MultisigProposal {
+    sequenceNumber: string;
+    creator: string;
+    createdAt: string;
+    // Entry function of the proposal, when its payload is stored on chain
+    function?: string;
+    typeArguments?: string[];
+    // BCS-encoded entry function arguments
+    arguments?: string[];
+    // Set instead of the payload for proposals created with a hash only
+    payloadHash?: string;
+    approvals: string[];
+    rejections: string[];
+    // Only the proposal after the last resolved one can be executed or rejected
+    isNext: boolean;
+    canExecute: boolean;
+}
+
+/**
+ * The direct tool call that executing a proposal amounts to, with the arguments the spending policy reads
+ */
+export interface ProposedCall {
+    toolName: string;
+    args: Record<string, any>;
+}
+
+/**
+ * Raised when a multisig operation is not allowed
+ */
+export class MultisigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MultisigError';
+    }
+}
+
+async function viewMultisig(aptosClient: Aptos, functionName: string, args: any[]): Promise<any[]> {
+    return aptosClient.view({
+        payload: {
+            function: `${MULTISIG_MODULE}::${functionName}`,
+            functionArguments: args
+        }
+    });
+}
+
+function pick(data: any, ...names: string[]): any {
+    for (const name of names) {
+        if (data?.[name] !== undefined && data[name] !== null) {
+            return data[name];
+        }
+    }
+    return undefined;
+}
+
+// Whether a function or type name belongs to a module published at the given address
+function isAtAddress(name: string, address: string): boolean {
+    try {
+        return AccountAddress.from(name.split('::')[0]).equals(AccountAddress.from(address));
+    } catch {
+        return false;
+    }
+}
+
+function formatEntryFunction(entryFunction: EntryFunction): string {
+    return `${entryFunction.module_name.address.toString()}::${entryFunction.module_name.name.identifier}::${entryFunction.function_name.identifier}`;
+}
+
+/**
+ * Read the owners, threshold and sequence numbers of a multisig account
+ */
+export async function getMultisigAccount(aptosClient: Aptos, multisigAddress: string): Promise<MultisigAccountInfo> {
+    const address = AccountAddress.from(multisigAddress).toString();
+
+    try {
+        const [[owners], [signaturesRequired], [lastResolved], [next]] = await Promise.all([
+            viewMultisig(aptosClient, 'owners', [address]),
+            viewMultisig(aptosClient, 'num_signatures_required', [address]),
+            viewMultisig(aptosClient, 'last_resolved_sequence_number', [address]),
+            viewMultisig(aptosClient, 'next_sequence_number', [address])
+        ]);
+
+        return {
+            address,
+            owners: (owners as string[]).map(owner => AccountAddress.from(owner).toString()),
+            signaturesRequired: Number(signaturesRequired),
+            lastResolvedSequenceNumber: String(lastResolved),
+            nextSequenceNumber: String(next)
+        };
+    } catch (error: any) {
+        throw new MultisigError(`${address} is not a multisig account: ${error.message || error}`);
+    }
+}
+
+function requireOwner(account: MultisigAccountInfo, owner: string): void {
+    const address = AccountAddress.from(owner);
+    if (!account.owners.some(existing => AccountAddress.from(existing).equals(address))) {
+        throw new MultisigError(`${owner} is not an owner of multisig account ${account.address}`);
+    }
+}
+
+/**
+ * List the pending proposals of a multisig account with their votes
+ */
+export async function listMultisigProposals(aptosClient: Aptos, multisigAddress: string): Promise<{
+    account: MultisigAccountInfo;
+    proposals: MultisigProposal[];
+}> {
+    const account = await getMultisigAccount(aptosClient, multisigAddress);
+    const [pending] = await viewMultisig(aptosClient, 'get_pending_transactions', [account.address]);
+
+    // Pending proposals are returned in order, starting after the last resolved sequence number
+    const proposals = (pending as any[]).map((entry, index): MultisigProposal => {
+        const sequenceNumber = (BigInt(account.lastResolvedSequenceNumber) + BigInt(index + 1)).toString();
+        const votes: Array<{ key: string; value: boolean }> = entry.votes?.data || [];
+        const approvals = votes.filter(vote => vote.value).map(vote => vote.key);
+        const rejections = votes.filter(vote => !vote.value).map(vote => vote.key);
+        const isNext = index === 0;
+
+        const proposal: MultisigProposal = {
+            sequenceNumber,
+            creator: entry.creator,
+            createdAt: new Date(Number(entry.creation_time_secs) * 1000).toISOString(),
+            approvals,
+            rejections,
+            isNext,
+            canExecute: isNext && approvals.length >= account.signaturesRequired
+        };
+
+        const payloadBytes: string | undefined = entry.payload?.vec?.[0];
+        if (payloadBytes) {
+            const payload = MultiSigTransactionPayload.deserialize(
+                new Deserializer(Hex.fromHexInput(payloadBytes).toUint8Array())
+            );
+            const entryFunction = payload.transaction_payload;
+            proposal.function = formatEntryFunction(entryFunction);
+            proposal.typeArguments = entryFunction.type_args.map(typeArg => typeArg.toString());
+            proposal.arguments = entryFunction.args.map(arg => Hex.fromHexInput(arg.bcsToBytes()).toString());
+        } else if (entry.payload_hash?.vec?.[0]) {
+            proposal.payloadHash = entry.payload_hash.vec[0];
+        }
+
+        return proposal;
+    });
+
+    return { account, proposals };
+}
+
+/**
+ * Wrap the entry function of a prepared transaction into a multisig proposal (create_transaction)
+ * @param aptosClient The Aptos client
+ * @param transaction The prepared single-signer transaction
+ * @param multisigAddress The multisig account that will execute the entry function
+ * @param proposer The owner submitting the proposal; defaults to the transaction sender
+ * @returns The proposal transaction and the proposed entry function
+ */
+export async function buildMultisigProposal(
+    aptosClient: Aptos,
+    transaction: SimpleTransaction,
+    multisigAddress: string,
+    proposer?: string
+): Promise<{ transaction: SimpleTransaction; proposedFunction: string }> {
+    // Duck-typed so transactions built by another copy of the SDK are recognised too
+    const entryFunction = (transaction.rawTransaction.payload as any).entryFunction as EntryFunction | undefined;
+    if (!entryFunction) {
+        throw new MultisigError("Only entry function transactions can be proposed to a multisig account");
+    }
+
+    const account = await getMultisigAccount(aptosClient, multisigAddress);
+    const sender = proposer ?? transaction.rawTransaction.sender.toString();
+    requireOwner(account, sender);
+
+    // Re-encode through this SDK's classes so the payload bytes are canonical
+    const payload = MultiSigTransactionPayload.deserialize(
+        new Deserializer(new MultiSigTransactionPayload(entryFunction).bcsToBytes())
+    );
+
+    const proposal = await aptosClient.transaction.build.simple({
+        sender,
+        data: {
+            function: `${MULTISIG_MODULE}::create_transaction`,
+            functionArguments: [account.address, MoveVector.U8(payload.bcsToBytes())]
+        }
+    });
+
+    return { transaction: proposal, proposedFunction: formatEntryFunction(payload.transaction_payload) };
+}
+
+async function requirePendingProposal(
+    aptosClient: Aptos,
+    multisigAddress: string,
+    sequenceNumber: string
+): Promise<{ account: MultisigAccountInfo; proposal: MultisigProposal }> {
+    const { account, proposals } = await listMultisigProposals(aptosClient, multisigAddress);
+    const proposal = proposals.find(entry => entry.sequenceNumber === String(sequenceNumber));
+    if (!proposal) {
+        throw new MultisigError(`No pending proposal ${sequenceNumber} on multisig account ${account.address}`);
+    }
+    return { account, proposal };
+}
+
+/**
+ * Build an approve_transaction or reject_transaction vote
+ * @param owner The owner casting the vote
+ */
+export async function buildMultisigVote(
+    aptosClient: Aptos,
+    multisigAddress: string,
+    sequenceNumber: string,
+    approve: boolean,
+    owner: string
+): Promise<SimpleTransaction> {
+    const { account } = await requirePendingProposal(aptosClient, multisigAddress, sequenceNumber);
+    requireOwner(account, owner);
+
+    return aptosClient.transaction.build.simple({
+        sender: owner,
+        data: {
+            function: `${MULTISIG_MODULE}::${approve ? 'approve_transaction' : 'reject_transaction'}`,
+            functionArguments: [account.address, BigInt(sequenceNumber)]
+        }
+    });
+}
+
+/**
+ * Build the transaction executing an approved proposal as the multisig account.
+ * Only proposals calling the MoveFlow contract are executed.
+ * @param owner The owner submitting the execution
+ * @param moduleAddress Address the MoveFlow contract is published at
+ * @returns The execution transaction and the proposal being executed
+ */
+export async function buildMultisigExecution(
+    aptosClient: Aptos,
+    multisigAddress: string,
+    sequenceNumber: string,
+    owner: string,
+    moduleAddress: string | undefined
+): Promise<{ transaction: SimpleTransaction; proposal: MultisigProposal }> {
+    const { account, proposal } = await requirePendingProposal(aptosClient, multisigAddress, sequenceNumber);
+    requireOwner(account, owner);
+
+    if (!proposal.isNext) {
+        throw new MultisigError(
+            `Proposal ${sequenceNumber} cannot be executed before proposal ${BigInt(account.lastResolvedSequenceNumber) + 1n}`
+        );
+    }
+    if (!proposal.canExecute) {
+        throw new MultisigError(
+            `Proposal ${sequenceNumber} has ${proposal.approvals.length} of ${account.signaturesRequired} required approvals`
+        );
+    }
+    if (!proposal.function) {
+        throw new MultisigError(`Proposal ${sequenceNumber} only stores a payload hash and cannot be executed by this server`);
+    }
+    if (!moduleAddress) {
+        throw new MultisigError('No MoveFlow contract address is configured, so proposals cannot be checked and are not executed');
+    }
+    if (!isAtAddress(proposal.function, moduleAddress)) {
+        throw new MultisigError(
+            `Proposal ${sequenceNumber} calls ${proposal.function}, which is not a MoveFlow function; ` +
+            `only proposals calling ${moduleAddress} can be executed by this server`
+        );
+    }
+
+    // The payload is stored on chain, so the execution only names the multisig account
+    const rawTransaction = await generateRawTransaction({
+        aptosConfig: aptosClient.config,
+        sender: owner,
+        payload: new TransactionPayloadMultiSig(new MultiSig(AccountAddress.from(account.address)))
+    });
+
+    return { transaction: new SimpleTransaction(rawTransaction), proposal };
+}
+
+/**
+ * Work out the direct call a MoveFlow proposal amounts to, from the MoveFlow events of its simulated execution:
+ * the coin comes from the type argument or the events, deposits and stream ids from the events.
+ * Each deposit is read from a stream-creation event carrying `recipient` and `deposit_amount` (or `amount`).
+ * @param events Events of the simulated execution
+ * @throws MultisigError if the deposits or closed streams cannot be read, so the spending policy is never skipped
+ */
+export function describeProposedCall(
+    proposal: MultisigProposal,
+    events: Array<{ type: string; data: any }>,
+    moduleAddress: string
+): ProposedCall {
+    const functionName = proposal.function?.split('::').pop() ?? '';
+    const kind = classifyStreamAction(functionName);
+    const batch = functionName.toLowerCase().includes('batch');
+    const toolName = (kind && ((batch && BATCH_CALL_TOOLS[kind]) || DIRECT_CALL_TOOLS[kind])) || functionName;
+
+    const moduleEvents = events.filter(event => typeof event.type === 'string' && isAtAddress(event.type, moduleAddress));
+    const eventKind = (event: { type: string }) => classifyStreamAction(event.type.split('<')[0].split('::').pop() ?? '');
+    const args: Record<string, any> = {};
+
+    // Coin streams are generic over the coin type; fungible asset streams name the metadata object
+    const asset = moduleEvents.map(event => pick(event.data, 'asset_type', 'fa_metadata', 'metadata')).find(value => value !== undefined);
+    if (proposal.typeArguments && proposal.typeArguments.length > 0) {
+        args.isFa = false;
+        args.coinType = proposal.typeArguments[0];
+    } else if (asset !== undefined) {
+        args.isFa = true;
+        args.assetType = String(typeof asset === 'object' ? asset.inner : asset);
+    }
+
+    if (kind === 'created') {
+        const deposits = moduleEvents.filter(event => eventKind(event) === 'created').map(event => ({
+            recipient: pick(event.data, 'recipient'),
+            amount: pick(event.data, 'deposit_amount', 'amount'),
+            startTime: pick(event.data, 'start_time'),
+            stopTime: pick(event.data, 'stop_time')
+        }));
+        if (deposits.length === 0 || deposits.some(deposit => deposit.recipient === undefined || deposit.amount === undefined)
+            || (args.coinType === undefined && args.assetType === undefined)) {
+            throw new MultisigError(
+                `The deposits of proposal ${proposal.sequenceNumber} (${proposal.function}) cannot be read from its simulation, ` +
+                `so they cannot be checked against the spending policy`
+            );
+        }
+        args.recipients = deposits.map(deposit => String(deposit.recipient));
+        args.depositAmounts = deposits.map(deposit => String(deposit.amount));
+        // The policy checks one duration per call; it is only known when every stream shares it
+        const [first] = deposits;
+        if (first.startTime !== undefined && first.stopTime !== undefined
+            && deposits.every(deposit => String(deposit.startTime) === String(first.startTime) && String(deposit.stopTime) === String(first.stopTime))) {
+            args.startTime = Number(first.startTime);
+            args.stopTime = Number(first.stopTime);
+        }
+    }
+
+    const streamIds = moduleEvents.map(event => pick(event.data, 'stream_id', 'id')).filter(id => id !== undefined).map(String);
+    args.streamIds = Array.from(new Set(streamIds));
+    if (kind === 'closed' && streamIds.length === 0) {
+        throw new MultisigError(
+            `The streams closed by proposal ${proposal.sequenceNumber} cannot be read from its simulation, ` +
+            `so they cannot be checked against the spending policy`
+        );
+    }
+
+    return { toolName, args };
+}
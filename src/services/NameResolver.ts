@@ -0,0 +1,206 @@
+import * as fs from 'fs';
+import { AccountAddress, Aptos } from "@aptos-labs/ts-sdk";
+
+// How long reverse lookups are remembered
+const REVERSE_CACHE_MS = 5 * 60 * 1000;
+
+/**
+ * Resolves Aptos Name Service names to addresses and back
+ */
+export interface NameResolver {
+    /**
+     * @returns The address the name targets, or null when it has none
+     */
+    resolveName(name: string): Promise<string | null>;
+
+    /**
+     * @returns The primary name of an address, or null when it has none
+     */
+    lookupAddress(address: string): Promise<string | null>;
+}
+
+/**
+ * Resolves names through the on-chain ANS contracts of the configured network
+ */
+export class AnsNameResolver implements NameResolver {
+    private reverseCache = new Map<string, { name: string | null; at: number }>();
+
+    constructor(private aptosClient: Aptos) {}
+
+    async resolveName(name: string): Promise<string | null> {
+        const address = await this.aptosClient.getTargetAddress({ name });
+        return address ? address.toString() : null;
+    }
+
+    async lookupAddress(address: string): Promise<string | null> {
+        const cached = this.reverseCache.get(address);
+        if (cached && Date.now() - cached.at < REVERSE_CACHE_MS) {
+            return cached.name;
+        }
+        const primary = await this.aptosClient.getPrimaryName({ address });
+        const name = primary ? `${primary}.apt` : null;
+        this.reverseCache.set(address, { name, at: Date.now() });
+        return name;
+    }
+}
+
+/**
+ * Resolves names from a JSON file mapping names to addresses, for local networks and tests
+ * where no ANS contracts are deployed
+ */
+export class LocalNameResolver implements NameResolver {
+    private names = new Map<string, string>();
+
+    constructor(private filePath: string) {}
+
+    async load(): Promise<number> {
+        try {
+            const entries: Record<string, string> = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+            for (const [name, address] of Object.entries(entries)) {
+                this.names.set(normalizeName(name), AccountAddress.from(address).toString());
+            }
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                throw error;
+            }
+        }
+        return this.names.size;
+    }
+
+    async resolveName(name: string): Promise<string | null> {
+        return this.names.get(normalizeName(name)) ?? null;
+    }
+
+    async lookupAddress(address: string): Promise<string | null> {
+        const target = AccountAddress.from(address).toString();
+        for (const [name, candidate] of this.names) {
+            if (candidate === target) {
+                return name;
+            }
+        }
+        return null;
+    }
+}
+
+/**
+ * Resolver used when name resolution is turned off
+ */
+export class DisabledNameResolver implements NameResolver {
+    async resolveName(name: string): Promise<string | null> {
+        throw new Error(`Cannot resolve ${name}: name resolution is disabled (NAME_RESOLVER=none)`);
+    }
+
+    async lookupAddress(): Promise<string | null> {
+        return null;
+    }
+}
+
+/**
+ * Create the name resolver selected by configuration
+ */
+export async function createNameResolver(
+    aptosClient: Aptos,
+    config: { backend: 'ans' | 'local' | 'none'; filePath: string }
+): Promise<NameResolver> {
+    if (config.backend === 'local') {
+        const resolver = new LocalNameResolver(config.filePath);
+        await resolver.load();
+        return resolver;
+    }
+    return config.backend === 'ans' ? new AnsNameResolver(aptosClient) : new DisabledNameResolver();
+}
+
+/**
+ * Whether the input is an ANS name rather than an address
+ */
+export function isAnsName(input: string): boolean {
+    return /^[a-z0-9-]+(\.[a-z0-9-]+)*\.apt$/i.test(input.trim());
+}
+
+function normalizeName(name: string): string {
+    const lower = name.trim().toLowerCase();
+    return lower.endsWith('.apt') ? lower : `${lower}.apt`;
+}
+
+/**
+ * Parse an account address, rejecting short forms such as 0x1234 for non-special accounts.
+ * Special addresses (0x0 to 0xf) may always be short.
+ * @param allowShort Accept any form AccountAddress.fromString tolerates
+ */
+export function normalizeAddress(input: string, allowShort = false): string {
+    const trimmed = input.trim();
+    if (allowShort) {
+        return AccountAddress.fromString(trimmed).toString();
+    }
+    try {
+        return AccountAddress.fromStringStrict(trimmed).toString();
+    } catch (error: any) {
+        throw new Error(
+            `${trimmed} is not a canonical account address: ${String(error.message).replace(/\.+$/, '')}. ` +
+            `Use the full 64 hex character form, or set allowShortAddress to accept short addresses`
+        );
+    }
+}
+
+/**
+ * Turn a recipient given as an address or an ANS name into a canonical address
+ */
+export async function resolveRecipient(resolver: NameResolver, input: string, allowShort = false): Promise<string> {
+    if (!isAnsName(input)) {
+        return normalizeAddress(input, allowShort);
+    }
+    const address = await resolver.resolveName(input.trim());
+    if (!address) {
+        throw new Error(`Name ${input} does not point to an address`);
+    }
+    return AccountAddress.from(address).toString();
+}
+
+/**
+ * Copy of tool arguments with `recipient` and `recipients` resolved to canonical addresses
+ */
+export async function resolveRecipientArguments(resolver: NameResolver, args: any): Promise<any> {
+    if (!args || typeof args !== 'object') {
+        return args;
+    }
+    const allowShort = args.allowShortAddress === true;
+    const resolved = { ...args };
+    if (typeof args.recipient === 'string') {
+        resolved.recipient = await resolveRecipient(resolver, args.recipient, allowShort);
+    }
+    if (Array.isArray(args.recipients)) {
+        resolved.recipients = await Promise.all(
+            args.recipients.map((recipient: string) => resolveRecipient(resolver, recipient, allowShort))
+        );
+    }
+    return resolved;
+}
+
+/**
+ * Add the names of a stream's sender and recipient, where they have one, as sender_name and recipient_name
+ * Lookup failures leave the stream unchanged.
+ */
+export async function annotateStreamNames<T extends Record<string, any>>(resolver: NameResolver, stream: T): Promise<T> {
+    const data = stream?.decoded_value ?? stream;
+    if (!data || typeof data !== 'object') {
+        return stream;
+    }
+    const [senderName, recipientName] = await Promise.all(
+        [data.sender, data.recipient].map(async address => {
+            if (typeof address !== 'string') {
+                return null;
+            }
+            try {
+                return await resolver.lookupAddress(address);
+            } catch {
+                return null;
+            }
+        })
+    );
+    const annotated = {
+        ...data,
+        ...(senderName ? { sender_name: senderName } : {}),
+        ...(recipientName ? { recipient_name: recipientName } : {})
+    };
+    return (stream?.decoded_value ? { ...stream, decoded_value: annotated } : annotated) as T;
+}
@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Deserializer, Hex, SimpleTransaction } from "@aptos-labs/ts-sdk";
+import { TransactionState, TransactionTransition } from "./TransactionLifecycle.js";
+
+/**
+ * A transaction prepared by the server together with its lifecycle state
+ */
+export interface PendingTransactionRecord {
+    transactionId: string;
+    transaction: SimpleTransaction;
+    createdAt: number;
+    expiresAt: number;
+    state: TransactionState;
+    transitions: TransactionTransition[];
+    // Tool that prepared the transaction
+    toolName?: string;
+    // Set once the transaction has been submitted
+    hash?: string;
+    vmStatus?: string;
+    // Maximum gas fee (octas) charged to the sponsorship budget when a fee payer submitted it
+    sponsoredFeeOctas?: string;
+}
+
+/**
+ * On-disk shape of a pending transaction; the SimpleTransaction is kept as BCS hex
+ */
+type SerializedPendingTransaction = Omit<PendingTransactionRecord, 'transaction'> & {
+    transactionBcs: string;
+};
+
+/**
+ * Storage backend for transactions prepared by the server.
+ * The store only persists records; expiry and state changes are decided by
+ * the transaction lifecycle using the stored timestamps.
+ */
+export interface PendingTransactionStore {
+    /**
+     * Load previously persisted transactions
+     * @returns The number of transactions loaded
+     */
+    load(): Promise<number>;
+
+    /**
+     * Get a transaction record, or undefined if it does not exist
+     */
+    get(transactionId: string): PendingTransactionRecord | undefined;
+
+    /**
+     * Insert or replace a pending transaction
+     */
+    put(record: PendingTransactionRecord): Promise<void>;
+
+    /**
+     * Remove a pending transaction
+     * @returns Whether the transaction existed
+     */
+    delete(transactionId: string): Promise<boolean>;
+
+    /**
+     * Remove several transactions with a single write
+     * @returns The number of transactions that existed
+     */
+    deleteMany(transactionIds: string[]): Promise<number>;
+
+    /**
+     * List all stored transaction records
+     */
+    list(): PendingTransactionRecord[];
+}
+
+/**
+ * Serialize a SimpleTransaction into BCS hex
+ */
+export function serializeSimpleTransaction(transaction: SimpleTransaction): string {
+    return transaction.bcsToHex().toString();
+}
+
+/**
+ * Restore a SimpleTransaction from BCS hex
+ */
+export function deserializeSimpleTransaction(bcsHex: string): SimpleTransaction {
+    const bytes = Hex.fromHexInput(bcsHex).toUint8Array();
+    return SimpleTransaction.deserialize(new Deserializer(bytes));
+}
+
+/**
+ * Shared in-memory cache; subclasses decide how to persist
+ */
+abstract class CachedPendingTransactionStore implements PendingTransactionStore {
+    protected records = new Map<string, PendingTransactionRecord>();
+
+    abstract load(): Promise<number>;
+
+    protected abstract persist(): Promise<void>;
+
+    get(transactionId: string): PendingTransactionRecord | undefined {
+        return this.records.get(transactionId);
+    }
+
+    async put(record: PendingTransactionRecord): Promise<void> {
+        this.records.set(record.transactionId, record);
+        await this.persist();
+    }
+
+    async delete(transactionId: string): Promise<boolean> {
+        const existed = this.records.delete(transactionId);
+        if (existed) {
+            await this.persist();
+        }
+        return existed;
+    }
+
+    async deleteMany(transactionIds: string[]): Promise<number> {
+        const removed = transactionIds.filter(transactionId => this.records.delete(transactionId)).length;
+        if (removed > 0) {
+            await this.persist();
+        }
+        return removed;
+    }
+
+    list(): PendingTransactionRecord[] {
+        return Array.from(this.records.values());
+    }
+}
+
+/**
+ * Non-persistent store, used before initAptos and when persistence is disabled
+ */
+export class MemoryPendingTransactionStore extends CachedPendingTransactionStore {
+    async load(): Promise<number> {
+        return this.records.size;
+    }
+
+    protected async persist(): Promise<void> {
+        // Nothing to persist
+    }
+}
+
+/**
+ * JSON file backed store. Every write rewrites the file atomically
+ * (write to a temporary file, then rename) so a crash never leaves a partial file.
+ */
+export class FilePendingTransactionStore extends CachedPendingTransactionStore {
+    private filePath: string;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        super();
+        this.filePath = filePath;
+    }
+
+    async load(): Promise<number> {
+        let content: string;
+        try {
+            content = await fs.promises.readFile(this.filePath, 'utf8');
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return 0;
+            }
+            throw error;
+        }
+
+        const entries: SerializedPendingTransaction[] = JSON.parse(content || '[]');
+        this.records.clear();
+
+        for (const { transactionBcs, ...entry } of entries) {
+            try {
+                this.records.set(entry.transactionId, {
+                    ...entry,
+                    // Records written before lifecycle tracking have no state
+                    state: entry.state || 'awaiting_signature',
+                    transitions: entry.transitions || [],
+                    transaction: deserializeSimpleTransaction(transactionBcs)
+                });
+            } catch (error) {
+                console.error(`Skipping unreadable pending transaction ${entry.transactionId}:`, error);
+            }
+        }
+
+        return this.records.size;
+    }
+
+    protected persist(): Promise<void> {
+        // Serialize writes so concurrent updates cannot interleave
+        this.writeQueue = this.writeQueue
+            .catch(() => undefined)
+            .then(() => this.writeFile());
+        return this.writeQueue;
+    }
+
+    private async writeFile(): Promise<void> {
+        const entries: SerializedPendingTransaction[] = Array.from(this.records.values()).map(({ transaction, ...record }) => ({
+            ...record,
+            transactionBcs: serializeSimpleTransaction(transaction)
+        }));
+
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify(entries, null, 2), { encoding: 'utf8', mode: 0o600 });
+        await fs.promises.rename(tempPath, this.filePath);
+    }
+}
+
+/**
+ * Create the pending transaction store selected by configuration
+ */
+export function createPendingTransactionStore(config: {
+    backend: 'file' | 'memory';
+    filePath: string;
+}): PendingTransactionStore {
+    if (config.backend === 'memory') {
+        return new MemoryPendingTransactionStore();
+    }
+    return new FilePendingTransactionStore(config.filePath);
+}
@@ -0,0 +1,403 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from "zod";
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Amounts are given in the coin's base units, as strings to keep full precision
+const amountSchema = z.union([z.string(), z.number()]).transform(value => BigInt(value));
+const amountMapSchema = z.record(amountSchema);
+
+/**
+ * Declarative spending policy, loaded from a JSON file
+ */
+export const spendingPolicySchema = z.object({
+    maxDeposit: z.object({
+        // Maximum deposit of a single stream, by tool name
+        perTool: amountMapSchema.optional(),
+        // Maximum deposit of a single stream, by coin type or fungible asset address
+        perCoin: amountMapSchema.optional()
+    }).optional(),
+    spendCaps: z.object({
+        // Rolling 24 hour total, by coin type or fungible asset address
+        daily: amountMapSchema.optional(),
+        // Rolling 7 day total, by coin type or fungible asset address
+        weekly: amountMapSchema.optional()
+    }).optional(),
+    recipients: z.object({
+        // When set, only these recipients are allowed
+        allow: z.array(z.string()).optional(),
+        deny: z.array(z.string()).optional()
+    }).optional(),
+    streamDuration: z.object({
+        minSeconds: z.number().optional(),
+        maxSeconds: z.number().optional()
+    }).optional(),
+    // Streams that close-stream must never close
+    closeProtectedStreams: z.array(z.string()).optional()
+}).strict();
+
+export type SpendingPolicy = z.infer<typeof spendingPolicySchema>;
+
+/**
+ * What a tool call is about to do, as far as the policy is concerned
+ */
+export interface PolicyRequest {
+    toolName: string;
+    coin?: string;
+    deposits: Array<{ recipient: string; amount: bigint }>;
+    startTime?: number;
+    stopTime?: number;
+    streamIds: string[];
+}
+
+/**
+ * One broken rule, with enough detail to explain the decision
+ */
+export interface PolicyViolation {
+    rule: 'max_deposit_per_tool' | 'max_deposit_per_coin' | 'daily_spend_cap' | 'weekly_spend_cap'
+        | 'recipient_not_allowed' | 'recipient_denied' | 'stream_duration' | 'close_protected_stream';
+    message: string;
+    limit?: string;
+    actual?: string;
+}
+
+/**
+ * Raised when a tool call violates the spending policy
+ */
+export class PolicyViolationError extends Error {
+    constructor(public readonly violations: PolicyViolation[]) {
+        super(`Spending policy violated: ${violations.map(violation => violation.message).join('; ')}`);
+        this.name = 'PolicyViolationError';
+    }
+
+    toJSON() {
+        return { error: 'policy_violation', violations: this.violations };
+    }
+}
+
+interface SpendEntry {
+    transactionId: string;
+    toolName: string;
+    coin: string;
+    amount: string;
+    at: number;
+}
+
+function sameAddress(a: string, b: string): boolean {
+    try {
+        return AccountAddress.from(a).equals(AccountAddress.from(b));
+    } catch {
+        return a === b;
+    }
+}
+
+// Long form of an address, or the lower-cased value when it is not one
+function canonicalAddress(value: string): string {
+    try {
+        return AccountAddress.from(value).toStringLong();
+    } catch {
+        return value.toLowerCase();
+    }
+}
+
+/**
+ * Canonical form of a coin type or fungible asset address, so that padded or differently cased
+ * addresses hit the same per-coin limits: every address is written in long form, whitespace is dropped
+ */
+export function normalizeCoinType(coin: string): string {
+    const compact = coin.replace(/\s+/g, '');
+    if (!compact.includes('::')) {
+        return canonicalAddress(compact);
+    }
+    return compact.replace(/0x[0-9a-fA-F]+/g, canonicalAddress);
+}
+
+/**
+ * Canonical form of a stream id, whether it is written as a padded, short or upper case address
+ */
+export function normalizeStreamId(streamId: string): string {
+    return canonicalAddress(streamId.trim());
+}
+
+// Re-key a per-coin map by canonical coin type; limits given for two spellings of one coin keep the lower one
+function normalizeCoinMap(map: Record<string, bigint> | undefined): Record<string, bigint> | undefined {
+    if (!map) {
+        return undefined;
+    }
+    const normalized: Record<string, bigint> = {};
+    for (const [coin, limit] of Object.entries(map)) {
+        const key = normalizeCoinType(coin);
+        normalized[key] = normalized[key] !== undefined && normalized[key] < limit ? normalized[key] : limit;
+    }
+    return normalized;
+}
+
+// The policy with its coin keys and protected stream ids in canonical form
+function normalizePolicy(policy: SpendingPolicy): SpendingPolicy {
+    return {
+        ...policy,
+        maxDeposit: policy.maxDeposit && {
+            ...policy.maxDeposit,
+            perCoin: normalizeCoinMap(policy.maxDeposit.perCoin)
+        },
+        spendCaps: policy.spendCaps && {
+            daily: normalizeCoinMap(policy.spendCaps.daily),
+            weekly: normalizeCoinMap(policy.spendCaps.weekly)
+        },
+        closeProtectedStreams: policy.closeProtectedStreams?.map(normalizeStreamId)
+    };
+}
+
+function toBigInt(value: unknown): bigint {
+    if (typeof value === 'bigint') {
+        return value;
+    }
+    return typeof value === 'number' ? BigInt(Math.trunc(value)) : BigInt(String(value ?? 0));
+}
+
+/**
+ * Extract the policy-relevant parts of a write tool call from its arguments.
+ * A multisig execution carrying the direct call it amounts to (proposedCall) is described as that call.
+ */
+export function describePolicyRequest(toolName: string, args: any): PolicyRequest {
+    if (args?.proposedCall) {
+        return describePolicyRequest(args.proposedCall.toolName, args.proposedCall.args);
+    }
+    const request: PolicyRequest = { toolName, deposits: [], streamIds: [] };
+    if (!args) {
+        return request;
+    }
+
+    request.coin = args.isFa ? args.assetType : args.coinType;
+    if (args.startTime !== undefined && args.stopTime !== undefined) {
+        request.startTime = Number(args.startTime);
+        request.stopTime = Number(args.stopTime);
+    }
+
+    if (args.recipient !== undefined && args.depositAmount !== undefined) {
+        request.deposits.push({ recipient: args.recipient, amount: toBigInt(args.depositAmount) });
+    }
+    if (Array.isArray(args.recipients) && Array.isArray(args.depositAmounts)) {
+        args.recipients.forEach((recipient: string, index: number) => {
+            request.deposits.push({ recipient, amount: toBigInt(args.depositAmounts[index]) });
+        });
+    }
+
+    if (args.streamId !== undefined) {
+        request.streamIds.push(String(args.streamId));
+    }
+    if (Array.isArray(args.streamIds)) {
+        request.streamIds.push(...args.streamIds.map(String));
+    }
+
+    return request;
+}
+
+/**
+ * Evaluates write tool calls against the spending policy before the server signs them,
+ * and keeps a ledger of what was spent for the rolling caps.
+ * Without a policy file every call is allowed.
+ */
+export class PolicyEngine {
+    private policy: SpendingPolicy | null = null;
+    private ledgerPath: string | null = null;
+    private ledger: SpendEntry[] = [];
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    /**
+     * Load the policy and the spend ledger
+     * @throws if the policy file is missing or invalid, so a broken policy never means "no policy"
+     */
+    async load(policyPath: string, ledgerPath: string): Promise<void> {
+        const content = await fs.promises.readFile(policyPath, 'utf8');
+        const parsed = spendingPolicySchema.safeParse(JSON.parse(content));
+        if (!parsed.success) {
+            throw new Error(`Invalid spending policy ${policyPath}: ${parsed.error.issues
+                .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ')}`);
+        }
+        this.policy = normalizePolicy(parsed.data);
+
+        this.ledgerPath = ledgerPath;
+        try {
+            const entries: SpendEntry[] = JSON.parse(await fs.promises.readFile(ledgerPath, 'utf8'));
+            this.ledger = entries.map(entry => ({ ...entry, coin: normalizeCoinType(entry.coin) }));
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                throw error;
+            }
+            this.ledger = [];
+        }
+    }
+
+    isEnabled(): boolean {
+        return this.policy !== null;
+    }
+
+    /**
+     * Check a request against every rule; coin types and stream ids are compared in canonical form
+     * @returns All violations; empty when the request is allowed
+     */
+    evaluate(request: PolicyRequest): PolicyViolation[] {
+        const policy = this.policy;
+        if (!policy) {
+            return [];
+        }
+
+        const violations: PolicyViolation[] = [];
+        const coin = request.coin ? normalizeCoinType(request.coin) : undefined;
+
+        for (const deposit of request.deposits) {
+            const toolLimit = policy.maxDeposit?.perTool?.[request.toolName];
+            if (toolLimit !== undefined && deposit.amount > toolLimit) {
+                violations.push({
+                    rule: 'max_deposit_per_tool',
+                    message: `Deposit of ${deposit.amount} exceeds the ${request.toolName} maximum of ${toolLimit}`,
+                    limit: toolLimit.toString(),
+                    actual: deposit.amount.toString()
+                });
+            }
+
+            const coinLimit = coin ? policy.maxDeposit?.perCoin?.[coin] : undefined;
+            if (coinLimit !== undefined && deposit.amount > coinLimit) {
+                violations.push({
+                    rule: 'max_deposit_per_coin',
+                    message: `Deposit of ${deposit.amount} exceeds the ${request.coin} maximum of ${coinLimit}`,
+                    limit: coinLimit.toString(),
+                    actual: deposit.amount.toString()
+                });
+            }
+
+            const allow = policy.recipients?.allow;
+            if (allow && !allow.some(address => sameAddress(address, deposit.recipient))) {
+                violations.push({
+                    rule: 'recipient_not_allowed',
+                    message: `Recipient ${deposit.recipient} is not on the allowlist`,
+                    actual: deposit.recipient
+                });
+            }
+            if (policy.recipients?.deny?.some(address => sameAddress(address, deposit.recipient))) {
+                violations.push({
+                    rule: 'recipient_denied',
+                    message: `Recipient ${deposit.recipient} is on the denylist`,
+                    actual: deposit.recipient
+                });
+            }
+        }
+
+        const total = request.deposits.reduce((sum, deposit) => sum + deposit.amount, 0n);
+        if (coin && total > 0n) {
+            for (const [window, windowMs, rule] of [
+                ['daily', DAY_MS, 'daily_spend_cap'],
+                ['weekly', WEEK_MS, 'weekly_spend_cap']
+            ] as const) {
+                const cap = policy.spendCaps?.[window]?.[coin];
+                if (cap === undefined) {
+                    continue;
+                }
+                const spent = this.spentSince(coin, Date.now() - windowMs);
+                if (spent + total > cap) {
+                    violations.push({
+                        rule,
+                        message: `Spending ${total} ${request.coin} would bring the ${window} total to ${spent + total}, above the cap of ${cap}`,
+                        limit: cap.toString(),
+                        actual: (spent + total).toString()
+                    });
+                }
+            }
+        }
+
+        if (request.startTime !== undefined && request.stopTime !== undefined && policy.streamDuration) {
+            const duration = request.stopTime - request.startTime;
+            const { minSeconds, maxSeconds } = policy.streamDuration;
+            if ((minSeconds !== undefined && duration < minSeconds) || (maxSeconds !== undefined && duration > maxSeconds)) {
+                violations.push({
+                    rule: 'stream_duration',
+                    message: `Stream duration of ${duration}s is outside the allowed range ${minSeconds ?? 0}s - ${maxSeconds ?? '∞'}s`,
+                    limit: `${minSeconds ?? 0}-${maxSeconds ?? ''}`,
+                    actual: duration.toString()
+                });
+            }
+        }
+
+        if (request.toolName === 'close-stream') {
+            for (const streamId of request.streamIds) {
+                if (policy.closeProtectedStreams?.includes(normalizeStreamId(streamId))) {
+                    violations.push({
+                        rule: 'close_protected_stream',
+                        message: `Stream ${streamId} is protected and cannot be closed`,
+                        actual: streamId
+                    });
+                }
+            }
+        }
+
+        return violations;
+    }
+
+    /**
+     * Evaluate a request and record its spend before the transaction is signed
+     * @throws PolicyViolationError if any rule is broken
+     */
+    async authorize(transactionId: string, request: PolicyRequest): Promise<void> {
+        const violations = this.evaluate(request);
+        if (violations.length > 0) {
+            throw new PolicyViolationError(violations);
+        }
+
+        const total = request.deposits.reduce((sum, deposit) => sum + deposit.amount, 0n);
+        if (this.policy && request.coin && total > 0n) {
+            this.ledger.push({
+                transactionId,
+                toolName: request.toolName,
+                coin: normalizeCoinType(request.coin),
+                amount: total.toString(),
+                at: Date.now()
+            });
+            await this.persistLedger();
+        }
+    }
+
+    /**
+     * Drop the spend of a transaction that was never submitted
+     */
+    async release(transactionId: string): Promise<void> {
+        const before = this.ledger.length;
+        this.ledger = this.ledger.filter(entry => entry.transactionId !== transactionId);
+        if (this.ledger.length !== before) {
+            await this.persistLedger();
+        }
+    }
+
+    private spentSince(coin: string, since: number): bigint {
+        return this.ledger
+            .filter(entry => entry.coin === coin && entry.at >= since)
+            .reduce((sum, entry) => sum + BigInt(entry.amount), 0n);
+    }
+
+    private persistLedger(): Promise<void> {
+        // Entries older than the longest window are no longer needed
+        const cutoff = Date.now() - WEEK_MS;
+        this.ledger = this.ledger.filter(entry => entry.at >= cutoff);
+
+        const ledgerPath = this.ledgerPath;
+        if (!ledgerPath) {
+            return Promise.resolve();
+        }
+
+        this.writeQueue = this.writeQueue
+            .catch(() => undefined)
+            .then(async () => {
+                await fs.promises.mkdir(path.dirname(ledgerPath), { recursive: true });
+                const tempPath = `${ledgerPath}.tmp`;
+                await fs.promises.writeFile(tempPath, JSON.stringify(this.ledger, null, 2), { encoding: 'utf8', mode: 0o600 });
+                await fs.promises.rename(tempPath, ledgerPath);
+            });
+        return this.writeQueue;
+    }
+}
+
+// 创建单例实例
+export const policyEngine = new PolicyEngine();
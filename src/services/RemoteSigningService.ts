@@ -0,0 +1,217 @@
+import { aptos } from "@moveflow/aptos-sdk";
+import { AccountAddress, AccountPublicKey, Hex, generateSigningMessageForTransaction } from "@aptos-labs/ts-sdk";
+import { TransactionSigningService } from "./TransactionSigningService.js";
+import { ClientProvidedSigningService } from "./ClientProvidedSigningService.js";
+import {
+    ClientSignedData,
+    SignatureScheme,
+    SingleKeyType,
+    SignatureVerificationError,
+    buildAccountAuthenticator,
+    buildAccountPublicKey,
+    normalizeClientSignedData,
+    verifyClientSignature
+} from "./SignatureAuthenticator.js";
+import { exportTransactionForSigning } from "./TransactionExport.js";
+import { TransactionState } from "./TransactionLifecycle.js";
+import { SequenceNumberManager } from "./SequenceNumberManager.js";
+import { RemoteSignerConfig } from "../config.js";
+
+/**
+ * Key description returned by `GET /public-key`
+ */
+export interface RemoteSignerIdentity {
+    address: string;
+    scheme?: SignatureScheme;
+    key_type?: SingleKeyType;
+    public_key?: string;
+    public_keys?: Array<string | { key_type?: SingleKeyType; public_key: string }>;
+    threshold?: number;
+}
+
+/**
+ * Signature returned by `POST /sign`, in the same shape as a client signature
+ */
+export interface RemoteSignature {
+    scheme?: SignatureScheme;
+    key_type?: SingleKeyType;
+    signature?: string;
+    public_key?: string;
+    public_keys?: Array<string | { key_type?: SingleKeyType; public_key: string }>;
+    threshold?: number;
+    signatures?: Array<{ index: number; signature: string }>;
+}
+
+/**
+ * Error raised when the remote signer cannot be reached or refuses to sign
+ */
+export class RemoteSignerError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RemoteSignerError';
+    }
+}
+
+/**
+ * TransactionSigningService that delegates signing to an external signer
+ * (a KMS or HSM gateway) over HTTP/JSON. The private key never reaches this process.
+ *
+ * Protocol:
+ * - `GET {url}/public-key` returns the signing account and its public key
+ * - `POST {url}/sign` receives the signing message and the exported transaction,
+ *   and returns the signature with the public key that produced it
+ *
+ * Client-signed submissions keep working through the client signing service.
+ */
+export class RemoteSigningService implements TransactionSigningService {
+    private aptosClient: aptos.Aptos;
+    private config: RemoteSignerConfig;
+    private clientSigning: ClientProvidedSigningService;
+    private sequenceNumbers?: SequenceNumberManager;
+    private identity: RemoteSignerIdentity | null = null;
+
+    constructor(
+        aptosClient: aptos.Aptos,
+        config: RemoteSignerConfig,
+        clientSigning: ClientProvidedSigningService,
+        sequenceNumbers?: SequenceNumberManager
+    ) {
+        this.aptosClient = aptosClient;
+        this.config = config;
+        this.clientSigning = clientSigning;
+        this.sequenceNumbers = sequenceNumbers;
+    }
+
+    /**
+     * Fetch (once) the account the remote signer signs for
+     */
+    async getIdentity(): Promise<RemoteSignerIdentity> {
+        if (!this.identity) {
+            const query = this.config.keyId ? `?key_id=${encodeURIComponent(this.config.keyId)}` : '';
+            const identity = await this.request<RemoteSignerIdentity>('GET', `/public-key${query}`);
+            if (!identity?.address) {
+                throw new RemoteSignerError("Remote signer did not return an account address");
+            }
+            this.identity = identity;
+        }
+        return this.identity;
+    }
+
+    /**
+     * Sign a transaction with the remote signer and submit it
+     * @param transaction The transaction to sign
+     * @param execute Whether to execute (submit) the transaction
+     * @returns The pending transaction response
+     */
+    async signAndSubmitTransaction(transaction: aptos.SimpleTransaction, execute: boolean): Promise<any> {
+        if (!execute) {
+            return this.clientSigning.signAndSubmitTransaction(transaction, false);
+        }
+
+        const identity = await this.getIdentity();
+        const sender = transaction.rawTransaction.sender.toString();
+        if (!AccountAddress.from(sender).equals(AccountAddress.from(identity.address))) {
+            throw new RemoteSignerError(`Transaction sender ${sender} is not the remote signer account ${identity.address}`);
+        }
+
+        // The remote signer signs the transaction as re-stamped by the sender's queue
+        const send = (queued: aptos.SimpleTransaction) => this.signRemotelyAndSubmit(queued, sender);
+        return this.sequenceNumbers
+            ? this.sequenceNumbers.submit(transaction, send)
+            : send(transaction);
+    }
+
+    private async signRemotelyAndSubmit(transaction: aptos.SimpleTransaction, sender: string): Promise<any> {
+        const signingMessage = Hex.fromHexInput(generateSigningMessageForTransaction(transaction)).toString();
+        const response = await this.request<RemoteSignature>('POST', '/sign', {
+            key_id: this.config.keyId,
+            signing_message: signingMessage,
+            transaction: exportTransactionForSigning(transaction)
+        });
+
+        // Treat the response like any client signature: rebuild and verify before submitting
+        const signed: ClientSignedData = normalizeClientSignedData({ ...response, sender });
+        const { authenticator, publicKey } = buildAccountAuthenticator(signed);
+        await this.verifySignerKey(publicKey);
+        await this.clientSigning.verifyAuthenticationKey(sender, publicKey);
+        if (!verifyClientSignature(transaction, signed)) {
+            throw new SignatureVerificationError("Remote signer returned a signature that does not match the signing message");
+        }
+
+        return this.aptosClient.transaction.submit.simple({
+            transaction,
+            senderAuthenticator: authenticator
+        });
+    }
+
+    /**
+     * Check that the signer signed with the key it reported from `/public-key`.
+     * Signers that report only an address are checked against the sender's authentication key alone.
+     */
+    private async verifySignerKey(publicKey: AccountPublicKey): Promise<void> {
+        const identity = await this.getIdentity();
+        if (!identity.public_key && !identity.public_keys) {
+            return;
+        }
+
+        const expected = buildAccountPublicKey(identity).authKey().toString();
+        const actual = publicKey.authKey().toString();
+        if (expected.toLowerCase() !== actual.toLowerCase()) {
+            throw new RemoteSignerError(
+                `Remote signer signed with a key (authentication key ${actual}) other than the one it reported from /public-key (authentication key ${expected})`
+            );
+        }
+    }
+
+    /**
+     * Submit a client-signed transaction
+     */
+    async submitSignedTransaction(transactionId: string, signedData: ClientSignedData): Promise<any> {
+        return this.clientSigning.submitSignedTransaction(transactionId, signedData);
+    }
+
+    /**
+     * Get details about a pending transaction
+     */
+    getPendingTransaction(transactionId: string): {
+        found: boolean;
+        transaction?: aptos.SimpleTransaction;
+        age?: number;
+        state?: TransactionState;
+    } {
+        return this.clientSigning.getPendingTransaction(transactionId);
+    }
+
+    private async request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+        const headers: Record<string, string> = { 'Accept': 'application/json' };
+        if (body !== undefined) {
+            headers['Content-Type'] = 'application/json';
+        }
+        if (this.config.token) {
+            headers['Authorization'] = `Bearer ${this.config.token}`;
+        }
+
+        let response: Response;
+        try {
+            response = await fetch(`${this.config.url}${path}`, {
+                method,
+                headers,
+                body: body === undefined ? undefined : JSON.stringify(body),
+                signal: AbortSignal.timeout(this.config.timeoutMs)
+            });
+        } catch (error: any) {
+            throw new RemoteSignerError(`Remote signer request ${method} ${path} failed: ${error.message || error}`);
+        }
+
+        const text = await response.text();
+        if (!response.ok) {
+            throw new RemoteSignerError(`Remote signer responded ${response.status} to ${method} ${path}: ${text}`);
+        }
+
+        try {
+            return JSON.parse(text) as T;
+        } catch {
+            throw new RemoteSignerError(`Remote signer returned invalid JSON for ${method} ${path}`);
+        }
+    }
+}
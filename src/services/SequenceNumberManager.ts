@@ -0,0 +1,173 @@
+import { Aptos, RawTransaction, SimpleTransaction } from "@aptos-labs/ts-sdk";
+
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Queue state of one sending account
+ */
+export interface SubmissionQueueStatus {
+    address: string;
+    // Submissions waiting for the queue, including the one in progress
+    queueDepth: number;
+    // Sequence number the next submission will use; null until synced from the chain
+    nextSequenceNumber: string | null;
+    submitted: number;
+    lastResyncAt?: string;
+    lastError?: string;
+}
+
+interface AccountQueue {
+    next: bigint | null;
+    // Set after a failure that was not about the sequence number: a transaction may still be pending in the
+    // mempool, so the local number is kept and only raised to the chain's
+    unsure: boolean;
+    tail: Promise<void>;
+    depth: number;
+    submitted: number;
+    lastResyncAt?: number;
+    lastError?: string;
+}
+
+/**
+ * Whether the node rejected a transaction because its sequence number was already used
+ */
+export function isSequenceNumberTooOld(error: any): boolean {
+    const details = [error?.message, error?.data?.vm_error_code, error?.data?.message, JSON.stringify(error?.data ?? '')];
+    return details.some(detail => typeof detail === 'string' && detail.includes('SEQUENCE_NUMBER_TOO_OLD'));
+}
+
+/**
+ * Whether the node rejected a transaction because its sequence number is ahead of the account's
+ */
+export function isSequenceNumberTooNew(error: any): boolean {
+    const details = [error?.message, error?.data?.vm_error_code, error?.data?.message, JSON.stringify(error?.data ?? '')];
+    return details.some(detail => typeof detail === 'string' && detail.includes('SEQUENCE_NUMBER_TOO_NEW'));
+}
+
+/**
+ * Copy a transaction with another sequence number, keeping its payload, gas, expiry and fee payer
+ */
+export function withSequenceNumber(transaction: SimpleTransaction, sequenceNumber: bigint): SimpleTransaction {
+    const raw = transaction.rawTransaction;
+    if (raw.sequence_number === sequenceNumber) {
+        return transaction;
+    }
+    return new SimpleTransaction(
+        new RawTransaction(
+            raw.sender,
+            sequenceNumber,
+            raw.payload,
+            raw.max_gas_amount,
+            raw.gas_unit_price,
+            raw.expiration_timestamp_secs,
+            raw.chain_id
+        ),
+        transaction.feePayerAddress
+    );
+}
+
+/**
+ * Serializes server-signed submissions per account and allocates sequence numbers locally,
+ * so concurrent tool calls never sign two transactions with the same sequence number.
+ * Transactions are built with the chain's sequence number at the time; the manager
+ * re-stamps each one with the next local number right before it is signed.
+ */
+export class SequenceNumberManager {
+    private accounts = new Map<string, AccountQueue>();
+
+    constructor(private aptosClient: Aptos) {}
+
+    /**
+     * Sign and submit a transaction through its sender's queue
+     * @param transaction The transaction as built by the tool
+     * @param send Signs and submits the re-stamped transaction
+     * @returns What send returned
+     */
+    async submit<T>(transaction: SimpleTransaction, send: (transaction: SimpleTransaction) => Promise<T>): Promise<T> {
+        const address = transaction.rawTransaction.sender.toString();
+        const queue = this.getQueue(address);
+
+        queue.depth++;
+        const previous = queue.tail;
+        let done!: () => void;
+        queue.tail = new Promise<void>(resolve => { done = resolve; });
+
+        try {
+            await previous;
+            return await this.submitInOrder(address, queue, transaction, send);
+        } finally {
+            queue.depth--;
+            done();
+        }
+    }
+
+    /**
+     * Queue state of every account that has submitted through the manager
+     */
+    getStatus(): SubmissionQueueStatus[] {
+        return Array.from(this.accounts.entries()).map(([address, queue]) => ({
+            address,
+            queueDepth: queue.depth,
+            nextSequenceNumber: queue.next?.toString() ?? null,
+            submitted: queue.submitted,
+            lastResyncAt: queue.lastResyncAt ? new Date(queue.lastResyncAt).toISOString() : undefined,
+            lastError: queue.lastError
+        }));
+    }
+
+    private getQueue(address: string): AccountQueue {
+        let queue = this.accounts.get(address);
+        if (!queue) {
+            queue = { next: null, unsure: false, tail: Promise.resolve(), depth: 0, submitted: 0 };
+            this.accounts.set(address, queue);
+        }
+        return queue;
+    }
+
+    /**
+     * Read the sequence number from the chain. After a sequence number error the chain's number replaces the
+     * local one; otherwise the local number only moves up, since the chain does not count pending transactions.
+     */
+    private async resync(address: string, queue: AccountQueue): Promise<bigint> {
+        const info = await this.aptosClient.getAccountInfo({ accountAddress: address });
+        const onChain = BigInt(info.sequence_number);
+        queue.next = queue.next !== null && queue.next > onChain ? queue.next : onChain;
+        queue.unsure = false;
+        queue.lastResyncAt = Date.now();
+        return queue.next;
+    }
+
+    private async submitInOrder<T>(
+        address: string,
+        queue: AccountQueue,
+        transaction: SimpleTransaction,
+        send: (transaction: SimpleTransaction) => Promise<T>
+    ): Promise<T> {
+        for (let attempt = 1; ; attempt++) {
+            const sequenceNumber = queue.next === null || queue.unsure
+                ? await this.resync(address, queue)
+                : queue.next;
+
+            try {
+                const result = await send(withSequenceNumber(transaction, sequenceNumber));
+                queue.next = sequenceNumber + 1n;
+                queue.submitted++;
+                queue.lastError = undefined;
+                return result;
+            } catch (error: any) {
+                queue.lastError = error.message || String(error);
+                if (isSequenceNumberTooOld(error) || isSequenceNumberTooNew(error)) {
+                    // The local number is wrong; take the chain's next time
+                    queue.next = null;
+                    if (attempt < MAX_ATTEMPTS) {
+                        continue;
+                    }
+                } else {
+                    // Network errors and aborts may leave the transaction pending, so its number is not reused blindly
+                    queue.unsure = true;
+                }
+                throw error;
+            }
+        }
+    }
+}
@@ -0,0 +1,331 @@
+import {
+    AccountAuthenticator,
+    AccountAuthenticatorEd25519,
+    AccountAuthenticatorMultiEd25519,
+    AccountAuthenticatorMultiKey,
+    AccountAuthenticatorSingleKey,
+    AccountPublicKey,
+    AnyPublicKey,
+    AnySignature,
+    Ed25519PublicKey,
+    Ed25519Signature,
+    MultiEd25519PublicKey,
+    MultiEd25519Signature,
+    MultiKey,
+    MultiKeySignature,
+    PublicKey,
+    Secp256k1PublicKey,
+    Secp256k1Signature,
+    Signature,
+    SimpleTransaction,
+    generateSigningMessageForTransaction,
+    generateUserTransactionHash
+} from "@aptos-labs/ts-sdk";
+
+export const SIGNATURE_SCHEMES = ['ed25519', 'multi_ed25519', 'single_key', 'multi_key'] as const;
+export type SignatureScheme = typeof SIGNATURE_SCHEMES[number];
+
+export const SINGLE_KEY_TYPES = ['ed25519', 'secp256k1'] as const;
+export type SingleKeyType = typeof SINGLE_KEY_TYPES[number];
+
+/**
+ * Signature produced by an external wallet, tagged with its scheme.
+ * All keys and signatures are hex strings.
+ */
+export type ClientSignature =
+    | {
+        scheme: 'ed25519';
+        public_key: string;
+        signature: string;
+    }
+    | {
+        scheme: 'multi_ed25519';
+        public_keys: string[];
+        threshold: number;
+        // Signatures with the index of the signing key in public_keys
+        signatures: Array<{ index: number; signature: string }>;
+    }
+    | {
+        scheme: 'single_key';
+        key_type: SingleKeyType;
+        public_key: string;
+        signature: string;
+    }
+    | {
+        scheme: 'multi_key';
+        public_keys: Array<{ key_type: SingleKeyType; public_key: string }>;
+        // Number of signatures required
+        threshold: number;
+        signatures: Array<{ index: number; signature: string }>;
+    };
+
+/**
+ * Signed data sent back by the client for a prepared transaction
+ */
+export type ClientSignedData = ClientSignature & {
+    sender: string;
+    transaction_hash?: string;
+};
+
+/**
+ * Error raised when a client signature cannot be used for a transaction
+ */
+export class SignatureVerificationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SignatureVerificationError';
+    }
+}
+
+function createSingleKeyPublicKey(keyType: SingleKeyType, publicKey: string): PublicKey {
+    return keyType === 'secp256k1' ? new Secp256k1PublicKey(publicKey) : new Ed25519PublicKey(publicKey);
+}
+
+function createSingleKeySignature(keyType: SingleKeyType, signature: string): Signature {
+    return keyType === 'secp256k1' ? new Secp256k1Signature(signature) : new Ed25519Signature(signature);
+}
+
+// Indices must be unique and sorted so they line up with the bitmap order
+function sortSignatures(signatures: Array<{ index: number; signature: string }>, keyCount: number) {
+    const sorted = [...signatures].sort((a, b) => a.index - b.index);
+    sorted.forEach((entry, i) => {
+        if (entry.index < 0 || entry.index >= keyCount) {
+            throw new SignatureVerificationError(`Signature index ${entry.index} is out of range for ${keyCount} public keys`);
+        }
+        if (i > 0 && sorted[i - 1].index === entry.index) {
+            throw new SignatureVerificationError(`Duplicate signature for key index ${entry.index}`);
+        }
+    });
+    return sorted;
+}
+
+/**
+ * Build the AccountAuthenticator matching the signature scheme
+ * @param signed The client signature
+ * @returns The authenticator and the account public key it authenticates
+ */
+export function buildAccountAuthenticator(signed: ClientSignature): {
+    authenticator: AccountAuthenticator;
+    publicKey: AccountPublicKey;
+} {
+    try {
+        switch (signed.scheme) {
+            case 'ed25519': {
+                const publicKey = new Ed25519PublicKey(signed.public_key);
+                return {
+                    authenticator: new AccountAuthenticatorEd25519(publicKey, new Ed25519Signature(signed.signature)),
+                    publicKey
+                };
+            }
+            case 'multi_ed25519': {
+                const publicKey = new MultiEd25519PublicKey({
+                    publicKeys: signed.public_keys.map(key => new Ed25519PublicKey(key)),
+                    threshold: signed.threshold
+                });
+                const sorted = sortSignatures(signed.signatures, signed.public_keys.length);
+                const signature = new MultiEd25519Signature({
+                    signatures: sorted.map(entry => new Ed25519Signature(entry.signature)),
+                    bitmap: MultiEd25519Signature.createBitmap({ bits: sorted.map(entry => entry.index) })
+                });
+                return {
+                    authenticator: new AccountAuthenticatorMultiEd25519(publicKey, signature),
+                    publicKey
+                };
+            }
+            case 'single_key': {
+                const publicKey = new AnyPublicKey(createSingleKeyPublicKey(signed.key_type, signed.public_key));
+                const signature = new AnySignature(createSingleKeySignature(signed.key_type, signed.signature));
+                return {
+                    authenticator: new AccountAuthenticatorSingleKey(publicKey, signature),
+                    publicKey
+                };
+            }
+            case 'multi_key': {
+                const publicKey = new MultiKey({
+                    publicKeys: signed.public_keys.map(key => createSingleKeyPublicKey(key.key_type, key.public_key)),
+                    signaturesRequired: signed.threshold
+                });
+                const sorted = sortSignatures(signed.signatures, signed.public_keys.length);
+                const signature = new MultiKeySignature({
+                    signatures: sorted.map(entry =>
+                        createSingleKeySignature(signed.public_keys[entry.index].key_type, entry.signature)),
+                    bitmap: MultiKeySignature.createBitmap({ bits: sorted.map(entry => entry.index) })
+                });
+                return {
+                    authenticator: new AccountAuthenticatorMultiKey(publicKey, signature),
+                    publicKey
+                };
+            }
+            default:
+                throw new SignatureVerificationError(`Unsupported signature scheme: ${(signed as any).scheme}`);
+        }
+    } catch (error: any) {
+        if (error instanceof SignatureVerificationError) {
+            throw error;
+        }
+        throw new SignatureVerificationError(`Malformed ${signed.scheme} signature: ${error.message}`);
+    }
+}
+
+/**
+ * Build the account public key from a key description without a signature,
+ * such as the identity a remote signer reports
+ * @param key The scheme and keys; a missing scheme means a single Ed25519 key
+ * @returns The account public key
+ */
+export function buildAccountPublicKey(key: {
+    scheme?: SignatureScheme;
+    key_type?: SingleKeyType;
+    public_key?: string;
+    public_keys?: Array<string | { key_type?: SingleKeyType; public_key: string }>;
+    threshold?: number;
+}): AccountPublicKey {
+    const scheme = key.scheme || 'ed25519';
+    try {
+        switch (scheme) {
+            case 'ed25519':
+                return new Ed25519PublicKey(requireField(key.public_key, 'public_key', scheme));
+            case 'single_key':
+                return new AnyPublicKey(
+                    createSingleKeyPublicKey(key.key_type || 'ed25519', requireField(key.public_key, 'public_key', scheme))
+                );
+            case 'multi_ed25519':
+                return new MultiEd25519PublicKey({
+                    publicKeys: requireField(key.public_keys, 'public_keys', scheme)
+                        .map(entry => new Ed25519PublicKey(typeof entry === 'string' ? entry : entry.public_key)),
+                    threshold: requireField(key.threshold, 'threshold', scheme)
+                });
+            case 'multi_key':
+                return new MultiKey({
+                    publicKeys: requireField(key.public_keys, 'public_keys', scheme)
+                        .map(entry => typeof entry === 'string'
+                            ? new Ed25519PublicKey(entry)
+                            : createSingleKeyPublicKey(entry.key_type || 'ed25519', entry.public_key)),
+                    signaturesRequired: requireField(key.threshold, 'threshold', scheme)
+                });
+            default:
+                throw new SignatureVerificationError(`Unsupported signature scheme: ${scheme}`);
+        }
+    } catch (error: any) {
+        if (error instanceof SignatureVerificationError) {
+            throw error;
+        }
+        throw new SignatureVerificationError(`Malformed ${scheme} public key: ${error.message}`);
+    }
+}
+
+/**
+ * Verify a client signature against the signing message of a prepared transaction
+ * @param transaction The stored transaction
+ * @param signed The client signature
+ * @returns Whether the signature is valid
+ */
+export function verifyClientSignature(transaction: SimpleTransaction, signed: ClientSignature): boolean {
+    const message = generateSigningMessageForTransaction(transaction);
+
+    switch (signed.scheme) {
+        case 'ed25519':
+            return new Ed25519PublicKey(signed.public_key)
+                .verifySignature({ message, signature: new Ed25519Signature(signed.signature) });
+        case 'single_key':
+            return createSingleKeyPublicKey(signed.key_type, signed.public_key)
+                .verifySignature({ message, signature: createSingleKeySignature(signed.key_type, signed.signature) });
+        case 'multi_ed25519':
+        case 'multi_key': {
+            // Every provided signature must be valid and there must be enough of them
+            if (signed.signatures.length < signed.threshold) {
+                return false;
+            }
+            return signed.signatures.every(entry => {
+                const keyType: SingleKeyType = signed.scheme === 'multi_key'
+                    ? signed.public_keys[entry.index].key_type
+                    : 'ed25519';
+                const key = signed.scheme === 'multi_key'
+                    ? signed.public_keys[entry.index].public_key
+                    : signed.public_keys[entry.index];
+                return createSingleKeyPublicKey(keyType, key)
+                    .verifySignature({ message, signature: createSingleKeySignature(keyType, entry.signature) });
+            });
+        }
+        default:
+            return false;
+    }
+}
+
+/**
+ * Compute the hash the transaction will have once submitted with these authenticators
+ * @param feePayerAuthenticator Required when the transaction has a fee payer
+ */
+export function computeTransactionHash(
+    transaction: SimpleTransaction,
+    senderAuthenticator: AccountAuthenticator,
+    feePayerAuthenticator?: AccountAuthenticator
+): string {
+    return generateUserTransactionHash({ transaction, senderAuthenticator, feePayerAuthenticator });
+}
+
+function requireField<T>(value: T | undefined, field: string, scheme: SignatureScheme): T {
+    if (value === undefined || value === null || value === '') {
+        throw new SignatureVerificationError(`'${field}' is required for ${scheme} signatures`);
+    }
+    return value;
+}
+
+/**
+ * Turn the flat tool input into a typed signature.
+ * Input without a scheme is treated as the legacy Ed25519 `{ signature, public_key }` payload.
+ */
+export function normalizeClientSignedData(input: {
+    scheme?: SignatureScheme;
+    sender: string;
+    transaction_hash?: string;
+    signature?: string;
+    public_key?: string;
+    key_type?: SingleKeyType;
+    public_keys?: Array<string | { key_type?: SingleKeyType; public_key: string }>;
+    threshold?: number;
+    signatures?: Array<{ index: number; signature: string }>;
+}): ClientSignedData {
+    const scheme = input.scheme || 'ed25519';
+    const common = { sender: input.sender, transaction_hash: input.transaction_hash };
+
+    switch (scheme) {
+        case 'ed25519':
+            return {
+                ...common,
+                scheme,
+                public_key: requireField(input.public_key, 'public_key', scheme),
+                signature: requireField(input.signature, 'signature', scheme)
+            };
+        case 'single_key':
+            return {
+                ...common,
+                scheme,
+                key_type: input.key_type || 'ed25519',
+                public_key: requireField(input.public_key, 'public_key', scheme),
+                signature: requireField(input.signature, 'signature', scheme)
+            };
+        case 'multi_ed25519':
+            return {
+                ...common,
+                scheme,
+                public_keys: requireField(input.public_keys, 'public_keys', scheme)
+                    .map(key => typeof key === 'string' ? key : key.public_key),
+                threshold: requireField(input.threshold, 'threshold', scheme),
+                signatures: requireField(input.signatures, 'signatures', scheme)
+            };
+        case 'multi_key':
+            return {
+                ...common,
+                scheme,
+                public_keys: requireField(input.public_keys, 'public_keys', scheme)
+                    .map(key => typeof key === 'string'
+                        ? { key_type: 'ed25519' as const, public_key: key }
+                        : { key_type: key.key_type || 'ed25519', public_key: key.public_key }),
+                threshold: requireField(input.threshold, 'threshold', scheme),
+                signatures: requireField(input.signatures, 'signatures', scheme)
+            };
+        default:
+            throw new SignatureVerificationError(`Unsupported signature scheme: ${scheme}`);
+    }
+}
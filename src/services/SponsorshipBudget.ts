@@ -0,0 +1,150 @@
+import { AccountAddress, RawTransaction, SimpleTransaction } from "@aptos-labs/ts-sdk";
+import { transactionProxyService } from "./TransactionProxyService.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Limits on the gas fees the sponsor account pays, in octas
+ */
+export interface SponsorshipLimits {
+    maxPerSenderOctas: bigint;
+    dailyBudgetOctas: bigint;
+    // Highest max gas amount of a sponsored transaction; the SDK default of 200000 units is lowered to it
+    maxGasAmount: bigint;
+}
+
+/**
+ * Sponsored gas spent during the current UTC day
+ */
+export interface SponsorshipUsage {
+    day: string;
+    senderSpentOctas: bigint;
+    totalSpentOctas: bigint;
+}
+
+/**
+ * Raised when sponsoring a transaction would exceed a budget
+ */
+export class SponsorshipBudgetError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SponsorshipBudgetError';
+    }
+}
+
+/**
+ * The most the sponsor can pay for a transaction: max gas amount × gas unit price
+ */
+export function maxGasFeeOctas(transaction: SimpleTransaction): bigint {
+    return BigInt(transaction.rawTransaction.max_gas_amount) * BigInt(transaction.rawTransaction.gas_unit_price);
+}
+
+/**
+ * Lower a transaction's max gas amount, keeping everything else; transactions already below the cap are returned as is
+ */
+export function capMaxGasAmount(transaction: SimpleTransaction, maxGasAmount: bigint): SimpleTransaction {
+    const raw = transaction.rawTransaction;
+    if (raw.max_gas_amount <= maxGasAmount) {
+        return transaction;
+    }
+    return new SimpleTransaction(
+        new RawTransaction(
+            raw.sender,
+            raw.sequence_number,
+            raw.payload,
+            maxGasAmount,
+            raw.gas_unit_price,
+            raw.expiration_timestamp_secs,
+            raw.chain_id
+        ),
+        transaction.feePayerAddress
+    );
+}
+
+/**
+ * Per-sender and per-day budgets for sponsored transactions.
+ * Spending is derived from the transaction records, so it survives restarts
+ * as long as finished transactions are retained for at least a day.
+ * Each sponsored transaction is charged its maximum gas fee, which limitGas keeps bounded.
+ */
+export class SponsorshipBudget {
+    // Charges for submissions in flight, not yet recorded on a transaction
+    private reservations = new Map<string, { sender: string; fee: bigint }>();
+
+    constructor(private limits: SponsorshipLimits) {}
+
+    /**
+     * Cap the max gas amount of a transaction about to be sponsored
+     */
+    limitGas(transaction: SimpleTransaction): SimpleTransaction {
+        return capMaxGasAmount(transaction, this.limits.maxGasAmount);
+    }
+
+    /**
+     * Sponsored gas spent today by one sender and in total
+     */
+    getUsage(sender: string): SponsorshipUsage {
+        const dayStart = Math.floor(Date.now() / DAY_MS) * DAY_MS;
+        const senderAddress = AccountAddress.from(sender);
+        let senderSpentOctas = 0n;
+        let totalSpentOctas = 0n;
+
+        const charges = [
+            ...transactionProxyService.listTransactions()
+                .filter(record => record.sponsoredFeeOctas
+                    && record.transitions.some(t => t.to === 'submitted' && t.at >= dayStart))
+                .map(record => ({
+                    sender: record.transaction.rawTransaction.sender.toString(),
+                    fee: BigInt(record.sponsoredFeeOctas as string)
+                })),
+            ...this.reservations.values()
+        ];
+
+        for (const charge of charges) {
+            totalSpentOctas += charge.fee;
+            if (AccountAddress.from(charge.sender).equals(senderAddress)) {
+                senderSpentOctas += charge.fee;
+            }
+        }
+
+        return { day: new Date(dayStart).toISOString().slice(0, 10), senderSpentOctas, totalSpentOctas };
+    }
+
+    /**
+     * Check whether a transaction fits in the remaining budgets
+     * @throws SponsorshipBudgetError if either budget would be exceeded
+     */
+    check(transaction: SimpleTransaction): void {
+        const sender = transaction.rawTransaction.sender.toString();
+        const fee = maxGasFeeOctas(transaction);
+        const usage = this.getUsage(sender);
+
+        if (usage.senderSpentOctas + fee > this.limits.maxPerSenderOctas) {
+            throw new SponsorshipBudgetError(
+                `Sponsoring ${fee} octas would exceed the per-sender daily limit of ${this.limits.maxPerSenderOctas} octas for sender ${sender} ` +
+                `(${usage.senderSpentOctas} octas already used on ${usage.day})`
+            );
+        }
+        if (usage.totalSpentOctas + fee > this.limits.dailyBudgetOctas) {
+            throw new SponsorshipBudgetError(
+                `Sponsoring ${fee} octas would exceed the total daily budget of ${this.limits.dailyBudgetOctas} octas ` +
+                `(${usage.totalSpentOctas} octas already used on ${usage.day})`
+            );
+        }
+    }
+
+    /**
+     * Hold the fee of a transaction while it is being submitted
+     * @returns A function releasing the reservation once the charge is recorded or the submission failed
+     */
+    reserve(transactionId: string, transaction: SimpleTransaction): () => void {
+        this.check(transaction);
+        this.reservations.set(transactionId, {
+            sender: transaction.rawTransaction.sender.toString(),
+            fee: maxGasFeeOctas(transaction)
+        });
+        return () => {
+            this.reservations.delete(transactionId);
+        };
+    }
+}
@@ -0,0 +1,206 @@
+import { StreamRecord } from "./StreamRecords.js";
+
+/**
+ * The release terms of a stream: what is deposited and how it unlocks
+ * Amounts are base units; times are seconds since epoch.
+ */
+export interface StreamTerms {
+    depositAmount: bigint;
+    cliffAmount: bigint;
+    // 0 when the stream has no cliff
+    cliffTime: number;
+    startTime: number;
+    stopTime: number;
+    interval: number;
+}
+
+/**
+ * What a stream owes its recipient at a point in time
+ */
+export interface StreamBalance {
+    streamId: string;
+    token: string;
+    status: StreamRecord['status'];
+    // Time the balance was computed for, in seconds since epoch
+    asOf: number;
+    depositAmount: string;
+    vestedAmount: string;
+    withdrawnAmount: string;
+    withdrawableAmount: string;
+    lockedAmount: string;
+    ratePerInterval: string;
+    interval: number;
+    // Seconds the stream has spent paused, which push the schedule back
+    pausedSeconds: number;
+    // null once everything is unlocked, or while the stream is paused or closed
+    nextUnlockTime: number | null;
+    nextUnlockAmount: string | null;
+}
+
+/**
+ * Number of intervals the deposit after the cliff is spread over; a partial last interval counts as one
+ */
+export function countIntervals(terms: StreamTerms): number {
+    const duration = terms.stopTime - terms.startTime;
+    if (duration <= 0 || terms.interval <= 0) {
+        return 0;
+    }
+    return Math.ceil(duration / terms.interval);
+}
+
+/**
+ * Amount released each full interval, rounded down
+ */
+export function ratePerInterval(terms: StreamTerms): bigint {
+    const intervals = countIntervals(terms);
+    return intervals > 0 ? (terms.depositAmount - terms.cliffAmount) / BigInt(intervals) : 0n;
+}
+
+/**
+ * Amount unlocked by a point on the stream's own clock, i.e. with paused time already taken out.
+ * Nothing unlocks before the cliff time; at the cliff the cliff amount and the intervals elapsed since
+ * the start unlock together. Rounding is on the cumulative amount, so the whole deposit is unlocked
+ * at the stop time.
+ */
+export function vestedAt(terms: StreamTerms, time: number): bigint {
+    if (time < terms.startTime || (terms.cliffTime > 0 && time < terms.cliffTime)) {
+        return 0n;
+    }
+    const intervals = countIntervals(terms);
+    if (time >= terms.stopTime || intervals === 0) {
+        return terms.depositAmount;
+    }
+    const elapsed = Math.floor((time - terms.startTime) / terms.interval);
+    const streamable = terms.depositAmount - terms.cliffAmount;
+    return terms.cliffAmount + streamable * BigInt(elapsed) / BigInt(intervals);
+}
+
+/**
+ * The next time, on the stream's own clock, at which more of the deposit unlocks
+ * @returns null when the whole deposit is unlocked by then
+ */
+export function nextUnlockAfter(terms: StreamTerms, time: number): number | null {
+    const vested = vestedAt(terms, time);
+    if (vested >= terms.depositAmount) {
+        return null;
+    }
+    const firstUnlock = Math.max(terms.startTime, terms.cliffTime);
+    if (time < firstUnlock && vestedAt(terms, firstUnlock) > 0n) {
+        return firstUnlock;
+    }
+    // Fewest elapsed intervals that release more than has been released so far;
+    // with small deposits several intervals can pass without the rounded amount moving
+    const released = vested > terms.cliffAmount ? vested - terms.cliffAmount : 0n;
+    const streamable = terms.depositAmount - terms.cliffAmount;
+    const intervals = BigInt(countIntervals(terms));
+    const elapsed = ((released + 1n) * intervals + streamable - 1n) / streamable;
+    const next = Math.min(terms.startTime + Number(elapsed) * terms.interval, terms.stopTime);
+    return Math.max(next, firstUnlock);
+}
+
+/**
+ * The release terms of a normalized stream
+ */
+export function termsOf(record: StreamRecord): StreamTerms {
+    return {
+        depositAmount: BigInt(record.depositAmount),
+        cliffAmount: BigInt(record.cliffAmount),
+        cliffTime: record.cliffTime,
+        startTime: record.startTime,
+        stopTime: record.stopTime,
+        interval: record.interval
+    };
+}
+
+/**
+ * Work out what a stream has vested, what the recipient can withdraw and what is still locked.
+ * Paused time does not count towards vesting: the schedule is pushed back by the time spent paused,
+ * and a paused stream vests nothing until it is resumed.
+ * @param now Seconds since epoch, normally the chain's ledger time
+ */
+export function computeStreamBalance(record: StreamRecord, now: number): StreamBalance {
+    const terms = termsOf(record);
+    const withdrawn = BigInt(record.withdrawnAmount);
+    const currentPause = record.paused && record.pausedAt > 0 ? Math.max(now - record.pausedAt, 0) : 0;
+    const pausedSeconds = record.accPausedTime + currentPause;
+    // The stream's own clock, which stands still while it is paused
+    const streamTime = now - pausedSeconds;
+
+    let vested = vestedAt(terms, streamTime);
+    let next: number | null = record.paused || record.status === 'closed' ? null : nextUnlockAfter(terms, streamTime);
+    let withdrawable = vested > withdrawn ? vested - withdrawn : 0n;
+    let locked = terms.depositAmount - vested;
+    if (record.status === 'closed') {
+        // Closing pays out what had vested and refunds the rest
+        vested = withdrawn;
+        withdrawable = 0n;
+        locked = 0n;
+        next = null;
+    }
+
+    return {
+        streamId: record.streamId,
+        token: record.token,
+        status: record.status,
+        asOf: now,
+        depositAmount: terms.depositAmount.toString(),
+        vestedAmount: vested.toString(),
+        withdrawnAmount: withdrawn.toString(),
+        withdrawableAmount: withdrawable.toString(),
+        lockedAmount: (locked > 0n ? locked : 0n).toString(),
+        ratePerInterval: ratePerInterval(terms).toString(),
+        interval: terms.interval,
+        pausedSeconds,
+        nextUnlockTime: next !== null ? next + pausedSeconds : null,
+        nextUnlockAmount: next !== null ? (vestedAt(terms, next) - vested).toString() : null
+    };
+}
+
+/**
+ * One release in an unlock schedule
+ */
+export interface ScheduleEntry {
+    // Seconds since epoch
+    time: number;
+    amount: string;
+    cumulative: string;
+}
+
+/**
+ * Every point at which part of the deposit unlocks, from the cliff to the stop time.
+ * Intervals whose rounded amount is zero are left out.
+ * @param maxEntries Stop after this many entries
+ * @param shiftAfter Entries after this time (on the stream's own clock) are moved later by shiftSeconds,
+ * for streams that have been paused
+ */
+export function projectSchedule(
+    terms: StreamTerms,
+    maxEntries: number,
+    shiftAfter = Infinity,
+    shiftSeconds = 0
+): { entries: ScheduleEntry[]; truncated: boolean } {
+    const entries: ScheduleEntry[] = [];
+    let released = 0n;
+    let time = nextUnlockAfter(terms, terms.startTime - 1);
+    while (time !== null && entries.length < maxEntries) {
+        const cumulative = vestedAt(terms, time);
+        entries.push({
+            time: time > shiftAfter ? time + shiftSeconds : time,
+            amount: (cumulative - released).toString(),
+            cumulative: cumulative.toString()
+        });
+        released = cumulative;
+        time = nextUnlockAfter(terms, time);
+    }
+    return { entries, truncated: time !== null };
+}
+
+/**
+ * Render a schedule as CSV with a header row
+ */
+export function formatScheduleCsv(entries: ScheduleEntry[]): string {
+    const rows = entries.map(entry =>
+        `${entry.time},${new Date(entry.time * 1000).toISOString()},${entry.amount},${entry.cumulative}`
+    );
+    return ['timestamp,date,amount,cumulative', ...rows].join('\n');
+}
@@ -0,0 +1,385 @@
+import { AccountAddress, Aptos } from "@aptos-labs/ts-sdk";
+import { NameResolver } from "./NameResolver.js";
+
+// Transactions read per request when walking an account's history
+const HISTORY_PAGE_SIZE = 100;
+// Most transactions read back from any one account
+const MAX_TRANSACTIONS_PER_ACCOUNT = 1000;
+// Most accounts scanned, counting earlier recipients found along the way
+const MAX_SCANNED_ACCOUNTS = 6;
+// Event rows read per indexer request
+const INDEXER_PAGE_SIZE = 100;
+// Most event rows read from the indexer for one stream
+const MAX_INDEXED_EVENTS = 1000;
+// Transactions fetched at once when reading the indexed versions
+const TRANSACTION_FETCH_BATCH = 10;
+
+// Events whose type mentions a stream and whose data names the stream id, oldest first
+const STREAM_EVENTS_QUERY = `query StreamEvents($where: events_bool_exp!, $limit: Int!, $offset: Int!) {
+    events(where: $where, order_by: [{ transaction_version: asc }, { event_index: asc }], limit: $limit, offset: $offset) {
+        transaction_version
+    }
+}`;
+
+/**
+ * Something that happened to a stream
+ */
+export type StreamHistoryEventKind = 'created' | 'withdrawn' | 'paused' | 'resumed' | 'extended' | 'recipient_changed' | 'closed';
+
+/**
+ * One entry of a stream's history, decoded from a MoveFlow event or, when the module emitted none,
+ * from the entry function of the transaction
+ */
+export interface StreamHistoryEvent {
+    kind: StreamHistoryEventKind;
+    // Seconds since epoch
+    time: number;
+    version: string;
+    hash: string;
+    // Account that sent the transaction, or the multisig account that executed it
+    actor: string;
+    actorName?: string;
+    // Deposited, withdrawn or refunded amount in base units, where the event carries one
+    amount?: string;
+    newStopTime?: number;
+    newRecipient?: string;
+    previousRecipient?: string;
+    // Event type, or the entry function when the kind was read from it
+    source: string;
+}
+
+/**
+ * The parties of a stream whose transactions are searched
+ */
+export interface StreamHistoryScope {
+    streamId: string;
+    sender: string;
+    recipient: string;
+    // Transactions before this time (seconds since epoch) are not read
+    since?: number;
+}
+
+/**
+ * A stream's history and how much of it could be found
+ */
+export interface StreamHistory {
+    // Chronological order
+    events: StreamHistoryEvent[];
+    // 'indexer' when the events were looked up by stream id, 'account_scan' when the parties' transactions were read
+    source: 'indexer' | 'account_scan';
+    // false when actions on the stream may be missing; notes says why
+    complete: boolean;
+    notes: string[];
+}
+
+function pick(data: any, ...names: string[]): any {
+    for (const name of names) {
+        if (data?.[name] !== undefined && data[name] !== null) {
+            return data[name];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Map an event struct or entry function name to the kind of stream event it records
+ */
+export function classifyStreamAction(name: string): StreamHistoryEventKind | null {
+    const lower = name.toLowerCase();
+    // Checked first: recipient-change names such as set_new_recipient mention no other action
+    if (lower.includes('recipient')) return 'recipient_changed';
+    if (lower.includes('create')) return 'created';
+    if (lower.includes('withdraw')) return 'withdrawn';
+    if (lower.includes('resume')) return 'resumed';
+    if (lower.includes('pause')) return 'paused';
+    if (lower.includes('extend')) return 'extended';
+    if (lower.includes('close')) return 'closed';
+    return null;
+}
+
+function sameId(a: unknown, b: string): boolean {
+    if (a === undefined || a === null) {
+        return false;
+    }
+    const value = String(a);
+    if (value === b) {
+        return true;
+    }
+    try {
+        return AccountAddress.from(value).equals(AccountAddress.from(b));
+    } catch {
+        return false;
+    }
+}
+
+function toOptionalString(value: unknown): string | undefined {
+    return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * Decode the stream events of one committed transaction
+ */
+export function decodeStreamTransaction(transaction: any, streamId: string): StreamHistoryEvent[] {
+    if (transaction?.type !== 'user_transaction' || !transaction.success) {
+        return [];
+    }
+
+    // Multisig executions carry the MoveFlow call inside the multisig payload
+    const payload = transaction.payload?.type === 'multisig_payload'
+        ? transaction.payload.transaction_payload
+        : transaction.payload;
+    const entryFunction: string = payload?.function ?? '';
+    const base = {
+        time: Math.floor(Number(transaction.timestamp) / 1000000),
+        version: String(transaction.version),
+        hash: String(transaction.hash),
+        actor: String(transaction.payload?.multisig_address ?? transaction.sender)
+    };
+
+    const events: StreamHistoryEvent[] = [];
+    for (const event of transaction.events ?? []) {
+        const data = event.data ?? {};
+        if (typeof event.type !== 'string' || !sameId(pick(data, 'stream_id', 'id'), streamId)) {
+            continue;
+        }
+        const structName = event.type.split('<')[0].split('::').pop() ?? '';
+        // A single event type may carry the action in a field instead of its name
+        const kind = classifyStreamAction(structName)
+            ?? classifyStreamAction(String(pick(data, 'event_type', 'operate_type', 'action') ?? ''));
+        if (!kind) {
+            continue;
+        }
+        const stopTime = pick(data, 'new_stop_time', 'extend_time', 'stop_time');
+        events.push({
+            ...base,
+            kind,
+            amount: toOptionalString(pick(data, 'amount', 'withdraw_amount', 'withdrawn_amount', 'deposit_amount', 'refund_amount')),
+            newStopTime: kind === 'extended' && stopTime !== undefined ? Number(stopTime) : undefined,
+            newRecipient: kind === 'recipient_changed' ? toOptionalString(pick(data, 'new_recipient', 'recipient')) : undefined,
+            previousRecipient: kind === 'recipient_changed' ? toOptionalString(pick(data, 'old_recipient', 'previous_recipient')) : undefined,
+            source: event.type
+        });
+    }
+
+    // Calls that name the stream but emitted no event of their own
+    const kind = classifyStreamAction(entryFunction.split('::').pop() ?? '');
+    const argumentsList: unknown[] = Array.isArray(payload?.arguments) ? payload.arguments.flat() : [];
+    if (events.length === 0 && kind && kind !== 'created' && argumentsList.some(argument => sameId(argument, streamId))) {
+        events.push({ ...base, kind, source: entryFunction });
+    }
+    return events;
+}
+
+/**
+ * Read an account's sent transactions from the newest back, stopping at `since` or the per-account limit
+ * @returns limitReached is true when older transactions after `since` were left unread
+ */
+async function fetchRecentTransactions(
+    aptosClient: Aptos,
+    address: string,
+    since?: number
+): Promise<{ transactions: any[]; limitReached: boolean }> {
+    let sequenceNumber: number;
+    try {
+        sequenceNumber = Number((await aptosClient.getAccountInfo({ accountAddress: address })).sequence_number);
+    } catch {
+        return { transactions: [], limitReached: false };
+    }
+
+    const transactions: any[] = [];
+    let end = sequenceNumber;
+    while (end > 0) {
+        if (transactions.length >= MAX_TRANSACTIONS_PER_ACCOUNT) {
+            return { transactions, limitReached: true };
+        }
+        const start = Math.max(end - HISTORY_PAGE_SIZE, 0);
+        const page = await aptosClient.getAccountTransactions({
+            accountAddress: address,
+            options: { offset: start, limit: end - start }
+        });
+        transactions.push(...page);
+        const oldest: any = page[0];
+        if (page.length === 0 || (since !== undefined && Number(oldest?.timestamp) / 1000000 < since)) {
+            break;
+        }
+        end = start;
+    }
+    return { transactions, limitReached: false };
+}
+
+/**
+ * The ways a stream id may be written in event data: as given, and in short and long form when it is an address
+ */
+function streamIdForms(streamId: string): string[] {
+    const forms = new Set([streamId]);
+    try {
+        const address = AccountAddress.from(streamId);
+        forms.add(address.toString());
+        forms.add(address.toStringLong());
+    } catch {
+        // Numeric ids are matched as given
+    }
+    return Array.from(forms);
+}
+
+/**
+ * Look up the versions of the transactions that emitted an event naming the stream, through the network's indexer
+ * @throws When the network has no indexer or the query fails
+ */
+async function fetchIndexedVersions(aptosClient: Aptos, streamId: string): Promise<{ versions: string[]; limitReached: boolean }> {
+    const where = {
+        type: { _ilike: '%stream%' },
+        _or: streamIdForms(streamId).flatMap(id => [
+            { data: { _contains: { stream_id: id } } },
+            { data: { _contains: { id } } }
+        ])
+    };
+    const versions = new Set<string>();
+    let offset = 0;
+    while (offset < MAX_INDEXED_EVENTS) {
+        const page = await aptosClient.queryIndexer<{ events: Array<{ transaction_version: string | number }> }>({
+            query: { query: STREAM_EVENTS_QUERY, variables: { where, limit: INDEXER_PAGE_SIZE, offset } }
+        });
+        page.events.forEach(row => versions.add(String(row.transaction_version)));
+        if (page.events.length < INDEXER_PAGE_SIZE) {
+            return { versions: Array.from(versions), limitReached: false };
+        }
+        offset += page.events.length;
+    }
+    return { versions: Array.from(versions), limitReached: true };
+}
+
+function sortByVersion(events: Iterable<StreamHistoryEvent>): StreamHistoryEvent[] {
+    return Array.from(events).sort((a, b) => Number(BigInt(a.version) - BigInt(b.version)));
+}
+
+/**
+ * Collect a stream's history from the transactions of its sender and recipients. Recipients found in
+ * recipient-change events are searched too, so withdrawals by earlier recipients are included.
+ * Transactions sent by other accounts, such as multisig owners or automated withdrawers, are only found
+ * when the sender or a recipient sent them, so the result is never marked complete.
+ */
+async function scanPartyTransactions(aptosClient: Aptos, scope: StreamHistoryScope): Promise<StreamHistory> {
+    const queue = [scope.sender, scope.recipient];
+    const scanned = new Set<string>();
+    const events = new Map<string, StreamHistoryEvent>();
+    const notes = ['Only transactions sent by the sender and recipients were read; actions sent by other accounts are missing'];
+
+    while (queue.length > 0) {
+        const address = queue.shift() as string;
+        let key: string;
+        try {
+            key = AccountAddress.from(address).toString();
+        } catch {
+            continue;
+        }
+        if (scanned.has(key)) {
+            continue;
+        }
+        if (scanned.size >= MAX_SCANNED_ACCOUNTS) {
+            notes.push(`Stopped after ${MAX_SCANNED_ACCOUNTS} accounts; ${key} and any later recipients were not read`);
+            break;
+        }
+        scanned.add(key);
+
+        const { transactions, limitReached } = await fetchRecentTransactions(aptosClient, key, scope.since);
+        if (limitReached) {
+            notes.push(`Read only the latest ${MAX_TRANSACTIONS_PER_ACCOUNT} transactions of ${key}; older actions may be missing`);
+        }
+        for (const transaction of transactions) {
+            decodeStreamTransaction(transaction, scope.streamId).forEach((event, index) => {
+                events.set(`${event.version}:${index}`, event);
+                if (event.kind === 'recipient_changed') {
+                    queue.push(...[event.previousRecipient, event.newRecipient].filter((party): party is string => !!party));
+                }
+            });
+        }
+    }
+
+    return { events: sortByVersion(events.values()), source: 'account_scan', complete: false, notes };
+}
+
+/**
+ * Collect a stream's history. The network's indexer is asked for the events that name the stream, which finds
+ * actions sent by any account. When there is no indexer, or it knows no event for the stream, the transactions
+ * of the stream's parties are read instead and the result is marked incomplete.
+ */
+export async function fetchStreamHistory(aptosClient: Aptos, scope: StreamHistoryScope): Promise<StreamHistory> {
+    let indexed: { versions: string[]; limitReached: boolean };
+    try {
+        indexed = await fetchIndexedVersions(aptosClient, scope.streamId);
+    } catch (error) {
+        console.error(`Indexer lookup of stream ${scope.streamId} failed, reading account transactions instead:`, error);
+        return scanPartyTransactions(aptosClient, scope);
+    }
+    if (indexed.versions.length === 0) {
+        return scanPartyTransactions(aptosClient, scope);
+    }
+
+    const events: StreamHistoryEvent[] = [];
+    for (let i = 0; i < indexed.versions.length; i += TRANSACTION_FETCH_BATCH) {
+        const transactions = await Promise.all(indexed.versions.slice(i, i + TRANSACTION_FETCH_BATCH)
+            .map(version => aptosClient.getTransactionByVersion({ ledgerVersion: BigInt(version) })));
+        transactions.forEach(transaction => events.push(...decodeStreamTransaction(transaction, scope.streamId)));
+    }
+
+    const notes = indexed.limitReached
+        ? [`Read only the first ${MAX_INDEXED_EVENTS} indexed events of the stream; later actions may be missing`]
+        : [];
+    return { events: sortByVersion(events), source: 'indexer', complete: !indexed.limitReached, notes };
+}
+
+/**
+ * Add the names of the accounts that acted on the stream; lookup failures are left unnamed
+ */
+export async function annotateHistoryActors(resolver: NameResolver, events: StreamHistoryEvent[]): Promise<StreamHistoryEvent[]> {
+    const actors = Array.from(new Set(events.map(event => event.actor)));
+    const names = new Map<string, string | null>();
+    await Promise.all(actors.map(async actor => {
+        try {
+            names.set(actor, await resolver.lookupAddress(actor));
+        } catch {
+            names.set(actor, null);
+        }
+    }));
+    return events.map(event => {
+        const name = names.get(event.actor);
+        return name ? { ...event, actorName: name } : event;
+    });
+}
+
+function describeEvent(event: StreamHistoryEvent): string {
+    const actor = event.actorName ? `${event.actorName} (${event.actor})` : event.actor;
+    switch (event.kind) {
+        case 'created':
+            return `created by ${actor}${event.amount ? `, deposit ${event.amount}` : ''}`;
+        case 'withdrawn':
+            return `${actor} withdrew ${event.amount ?? 'an unknown amount'}`;
+        case 'extended':
+            return `extended by ${actor}` +
+                (event.newStopTime ? ` to ${new Date(event.newStopTime * 1000).toISOString()}` : '');
+        case 'recipient_changed':
+            return `recipient changed by ${actor}` +
+                (event.previousRecipient ? ` from ${event.previousRecipient}` : '') +
+                (event.newRecipient ? ` to ${event.newRecipient}` : '');
+        case 'closed':
+            return `closed by ${actor}${event.amount ? `, ${event.amount} settled` : ''}`;
+        default:
+            return `${event.kind} by ${actor}`;
+    }
+}
+
+/**
+ * Render the events as a timeline, one line per event, followed by the reasons it may be incomplete
+ */
+export function formatStreamTimeline(streamId: string, history: StreamHistory): string {
+    const lines = history.events.length === 0
+        ? [`No history found for stream ${streamId}`]
+        : [`History of stream ${streamId}:`, ...history.events.map(event =>
+            `${new Date(event.time * 1000).toISOString()}  ${describeEvent(event)}  (tx ${event.hash})`
+        )];
+    if (!history.complete) {
+        lines.push('', 'This history may be incomplete:', ...history.notes.map(note => `  ${note}`));
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,157 @@
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+
+/**
+ * Stream operations whose permission depends on the stream's settings and state
+ */
+export type StreamOperation = 'pause' | 'resume' | 'close' | 'extend';
+
+/**
+ * Who may perform an operation, as stored in the stream's OperateUser settings
+ * 'unknown' when the setting is missing or encoded in a way this server does not recognise.
+ */
+export type StreamRole = 'sender' | 'recipient' | 'both' | 'unknown';
+
+/**
+ * The parts of an on-chain stream that decide who may operate on it
+ */
+export interface StreamPermissionState {
+    // Undefined when the stream data does not include the party
+    sender?: string;
+    recipient?: string;
+    closed: boolean;
+    paused: boolean;
+    stopTime?: number;
+    pauseable: StreamRole;
+    closeable: StreamRole;
+    recipientModifiable: StreamRole;
+}
+
+/**
+ * Why an operation would fail on chain
+ */
+export interface StreamOperationRefusal {
+    code: 'stream_closed' | 'already_paused' | 'not_paused' | 'not_permitted' | 'extend_not_later';
+    message: string;
+}
+
+// OperateUser values of the MoveFlow module: 1 sender, 2 recipient, 3 both.
+// Enum variants may also come as their name, or as an object such as { __variant__: "Sender" }.
+function toRole(value: unknown): StreamRole {
+    if (value && typeof value === 'object' && '__variant__' in value) {
+        value = (value as { __variant__: unknown }).__variant__;
+    }
+    if (value === undefined || value === null || value === '') {
+        return 'unknown';
+    }
+    switch (typeof value === 'string' && !/^\d+$/.test(value) ? value.toLowerCase() : Number(value)) {
+        case 1:
+        case 'sender':
+            return 'sender';
+        case 2:
+        case 'recipient':
+            return 'recipient';
+        case 3:
+        case 'both':
+            return 'both';
+        default:
+            return 'unknown';
+    }
+}
+
+function toBoolean(value: unknown): boolean {
+    return value === true || value === 'true' || value === 1;
+}
+
+/**
+ * Read the permission-relevant fields of a stream as returned by fetchStream
+ */
+export function readStreamPermissionState(stream: any): StreamPermissionState {
+    const data = stream?.decoded_value ?? stream ?? {};
+    const pauseInfo = data.pause_info ?? data.pauseInfo ?? {};
+    const featureInfo = data.feature_info ?? data.featureInfo ?? data;
+    const status = typeof data.status === 'string' ? data.status.toLowerCase() : undefined;
+
+    return {
+        sender: typeof data.sender === 'string' ? data.sender : undefined,
+        recipient: typeof data.recipient === 'string' ? data.recipient : undefined,
+        closed: toBoolean(data.closed) || status === 'closed',
+        paused: toBoolean(pauseInfo.paused ?? data.paused) || status === 'paused',
+        stopTime: data.stop_time !== undefined ? Number(data.stop_time) : undefined,
+        pauseable: toRole(featureInfo.pauseable),
+        closeable: toRole(featureInfo.closeable),
+        recipientModifiable: toRole(featureInfo.recipient_modifiable ?? featureInfo.recipientModifiable)
+    };
+}
+
+// null when the actor is neither party; undefined when the parties cannot be compared
+function roleOf(state: StreamPermissionState, actor: string): 'sender' | 'recipient' | null | undefined {
+    try {
+        const address = AccountAddress.from(actor);
+        const sender = state.sender !== undefined ? AccountAddress.from(state.sender) : undefined;
+        const recipient = state.recipient !== undefined ? AccountAddress.from(state.recipient) : undefined;
+        if (sender && address.equals(sender)) {
+            return 'sender';
+        }
+        if (recipient && address.equals(recipient)) {
+            return 'recipient';
+        }
+        return sender && recipient ? null : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function allows(setting: StreamRole, role: 'sender' | 'recipient' | null): boolean {
+    return role !== null && (setting === 'both' || setting === role);
+}
+
+/**
+ * Check an operation against a stream's status and settings
+ * @param actor Address that will sign the operation, or null to check only the stream's status
+ * @param extendTime New stop time, for 'extend'
+ * @returns Why the operation would fail; empty when it is allowed
+ */
+export function checkStreamOperation(
+    state: StreamPermissionState,
+    operation: StreamOperation,
+    actor: string | null,
+    extendTime?: number
+): StreamOperationRefusal[] {
+    const refusals: StreamOperationRefusal[] = [];
+
+    if (state.closed) {
+        refusals.push({ code: 'stream_closed', message: 'The stream is already closed' });
+    } else if (operation === 'pause' && state.paused) {
+        refusals.push({ code: 'already_paused', message: 'The stream is already paused' });
+    } else if (operation === 'resume' && !state.paused) {
+        refusals.push({ code: 'not_paused', message: 'The stream is not paused' });
+    }
+
+    if (operation === 'extend' && extendTime !== undefined && state.stopTime !== undefined && extendTime <= state.stopTime) {
+        refusals.push({
+            code: 'extend_not_later',
+            message: `The new stop time ${extendTime} must be later than the current stop time ${state.stopTime}`
+        });
+    }
+
+    if (actor) {
+        const role = roleOf(state, actor);
+        const setting = operation === 'pause' || operation === 'resume'
+            ? state.pauseable
+            : operation === 'close'
+                ? state.closeable
+                // Only the sender funds an extension
+                : 'sender';
+        // Refuse only on a setting and role that were both read; otherwise the chain decides
+        if (setting !== 'unknown' && role !== undefined && !allows(setting, role)) {
+            const allowed = setting === 'both' ? 'the sender or the recipient' : `the ${setting}`;
+            refusals.push({
+                code: 'not_permitted',
+                message: `${actor} is ${role ? `the ${role}` : 'neither the sender nor the recipient'} of this stream; ` +
+                    `only ${allowed} may ${operation} it`
+            });
+        }
+    }
+
+    return refusals;
+}
@@ -0,0 +1,252 @@
+import { AccountAddress, Aptos } from "@aptos-labs/ts-sdk";
+
+/**
+ * Where a stream is in its life, at a given time
+ */
+export type StreamStatus = 'scheduled' | 'active' | 'paused' | 'completed' | 'closed';
+
+export const STREAM_STATUSES: [StreamStatus, ...StreamStatus[]] = ['scheduled', 'active', 'paused', 'completed', 'closed'];
+
+/**
+ * A MoveFlow stream with consistent field names and types, whatever shape the SDK returned
+ * Amounts are base-unit integers as strings; times are seconds since epoch.
+ */
+export interface StreamRecord {
+    streamId: string;
+    name: string;
+    sender: string;
+    recipient: string;
+    // Coin type, or the metadata address of a fungible asset
+    token: string;
+    isFa: boolean;
+    status: StreamStatus;
+    depositAmount: string;
+    withdrawnAmount: string;
+    remainingAmount: string;
+    cliffAmount: string;
+    cliffTime: number;
+    ratePerInterval: string;
+    interval: number;
+    startTime: number;
+    stopTime: number;
+    lastWithdrawTime: number;
+    paused: boolean;
+    pausedAt: number;
+    // Seconds spent paused before the current pause
+    accPausedTime: number;
+    createdAt?: number;
+    senderName?: string;
+    recipientName?: string;
+}
+
+function pick(data: any, ...names: string[]): any {
+    for (const name of names) {
+        if (data?.[name] !== undefined && data[name] !== null) {
+            return data[name];
+        }
+    }
+    return undefined;
+}
+
+function toAmount(value: unknown): string {
+    try {
+        return value === undefined ? '0' : BigInt(String(value)).toString();
+    } catch {
+        return '0';
+    }
+}
+
+function toSeconds(value: unknown): number {
+    const seconds = Number(value ?? 0);
+    return Number.isFinite(seconds) ? seconds : 0;
+}
+
+function toBoolean(value: unknown): boolean {
+    return value === true || value === 'true' || value === 1;
+}
+
+function decodeHexString(value: string): string {
+    if (!/^0x([0-9a-f]{2})+$/i.test(value)) {
+        return value;
+    }
+    return Buffer.from(value.slice(2), 'hex').toString('utf8');
+}
+
+// Coin types are stored either as a string or as a TypeInfo with hex-encoded names
+function readToken(value: any): string {
+    if (typeof value === 'string') {
+        return value;
+    }
+    if (value?.account_address && value?.module_name && value?.struct_name) {
+        return `${value.account_address}::${decodeHexString(value.module_name)}::${decodeHexString(value.struct_name)}`;
+    }
+    if (typeof value?.inner === 'string') {
+        return value.inner;
+    }
+    return 'unknown';
+}
+
+/**
+ * Bring a stream from fetchStream or getStreams into the StreamRecord shape
+ * @param now Seconds since epoch used to derive the status
+ */
+export function normalizeStream(stream: any, now: number): StreamRecord {
+    const data = stream?.decoded_value ?? stream ?? {};
+    const pauseInfo = pick(data, 'pause_info', 'pauseInfo') ?? {};
+    const cliffInfo = pick(data, 'cliff_info', 'cliffInfo') ?? data;
+    const assetType = pick(data, 'asset_type', 'metadata', 'asset');
+    const coinType = pick(data, 'coin_type', 'coinType');
+    const isFa = toBoolean(pick(data, 'is_fa', 'isFa')) || (coinType === undefined && assetType !== undefined);
+
+    const depositAmount = toAmount(pick(data, 'deposit_amount', 'depositAmount', 'amount'));
+    const withdrawnAmount = toAmount(pick(data, 'withdrawn_amount', 'withdrawnAmount'));
+    const remaining = pick(data, 'remaining_amount', 'remainingAmount');
+    const startTime = toSeconds(pick(data, 'start_time', 'startTime'));
+    const stopTime = toSeconds(pick(data, 'stop_time', 'stopTime'));
+    const closed = toBoolean(data.closed) || String(data.status).toLowerCase() === 'closed';
+    const paused = toBoolean(pick(pauseInfo, 'paused') ?? data.paused) || String(data.status).toLowerCase() === 'paused';
+
+    let status: StreamStatus;
+    if (closed) {
+        status = 'closed';
+    } else if (paused) {
+        status = 'paused';
+    } else if (now < startTime) {
+        status = 'scheduled';
+    } else if (now >= stopTime || BigInt(withdrawnAmount) >= BigInt(depositAmount)) {
+        status = 'completed';
+    } else {
+        status = 'active';
+    }
+
+    const createdAt = pick(data, 'create_at', 'created_at', 'createdAt');
+    return {
+        streamId: String(pick(data, 'id', 'stream_id', 'streamId') ?? ''),
+        name: String(pick(data, 'name') ?? ''),
+        sender: String(data.sender ?? ''),
+        recipient: String(data.recipient ?? ''),
+        token: readToken(isFa ? assetType ?? coinType : coinType ?? assetType),
+        isFa,
+        status,
+        depositAmount,
+        withdrawnAmount,
+        remainingAmount: remaining !== undefined
+            ? toAmount(remaining)
+            : (BigInt(depositAmount) - BigInt(withdrawnAmount)).toString(),
+        cliffAmount: toAmount(pick(cliffInfo, 'cliff_amount', 'cliffAmount')),
+        cliffTime: toSeconds(pick(cliffInfo, 'cliff_time', 'cliffTime')),
+        ratePerInterval: toAmount(pick(data, 'rate_per_interval', 'ratePerInterval')),
+        interval: toSeconds(pick(data, 'interval')),
+        startTime,
+        stopTime,
+        lastWithdrawTime: toSeconds(pick(data, 'last_withdraw_time', 'lastWithdrawTime')),
+        paused,
+        pausedAt: toSeconds(pick(pauseInfo, 'pause_at', 'pauseAt', 'paused_at')),
+        accPausedTime: toSeconds(pick(pauseInfo, 'acc_paused_time', 'accPausedTime')),
+        createdAt: createdAt !== undefined ? toSeconds(createdAt) : undefined,
+        senderName: pick(data, 'sender_name'),
+        recipientName: pick(data, 'recipient_name')
+    };
+}
+
+/**
+ * Current time according to the chain, in seconds since epoch
+ * Falls back to the local clock when the node cannot be reached.
+ */
+export async function getLedgerTimeSeconds(aptosClient: Aptos): Promise<number> {
+    try {
+        const ledger = await aptosClient.getLedgerInfo();
+        return Math.floor(Number(ledger.ledger_timestamp) / 1000000);
+    } catch {
+        return Math.floor(Date.now() / 1000);
+    }
+}
+
+/**
+ * Filters, order and page of a stream listing
+ */
+export interface StreamQuery {
+    // Account whose streams are listed
+    address: string;
+    // incoming: the account is the recipient; outgoing: the account is the sender
+    direction: 'incoming' | 'outgoing' | 'both';
+    statuses?: StreamStatus[];
+    // Coin type or fungible asset metadata address
+    token?: string;
+    sortBy: 'startTime' | 'stopTime' | 'createdAt' | 'depositAmount';
+    order: 'asc' | 'desc';
+    limit: number;
+    // Opaque cursor from the previous page
+    cursor?: string;
+}
+
+export interface StreamPage {
+    streams: StreamRecord[];
+    // Streams matching the filters, across all pages
+    total: number;
+    nextCursor?: string;
+}
+
+function sameAddress(a: string, b: string): boolean {
+    try {
+        return AccountAddress.from(a).equals(AccountAddress.from(b));
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Whether two coin types or asset addresses name the same token, ignoring how the address is written
+ */
+export function sameToken(a: string, b: string): boolean {
+    const [addressA, ...restA] = a.split('::');
+    const [addressB, ...restB] = b.split('::');
+    return restA.join('::') === restB.join('::') && sameAddress(addressA, addressB);
+}
+
+function encodeCursor(offset: number): string {
+    return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+    try {
+        const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (Number.isInteger(offset) && offset >= 0) {
+            return offset;
+        }
+    } catch {
+        // Reported below
+    }
+    throw new Error(`Invalid cursor: ${cursor}`);
+}
+
+/**
+ * Filter, sort and page the streams of an account
+ */
+export function queryStreams(records: StreamRecord[], query: StreamQuery): StreamPage {
+    const matches = records.filter(record =>
+        (query.direction !== 'incoming' || sameAddress(record.recipient, query.address))
+        && (query.direction !== 'outgoing' || sameAddress(record.sender, query.address))
+        && (!query.statuses?.length || query.statuses.includes(record.status))
+        && (!query.token || sameToken(record.token, query.token))
+    );
+
+    const key = (record: StreamRecord): bigint => query.sortBy === 'depositAmount'
+        ? BigInt(record.depositAmount)
+        : BigInt(record[query.sortBy] ?? 0);
+    const direction = query.order === 'asc' ? 1 : -1;
+    matches.sort((a, b) => {
+        const [x, y] = [key(a), key(b)];
+        // Stream IDs keep the order stable between pages
+        return x === y ? a.streamId.localeCompare(b.streamId, undefined, { numeric: true }) : (x < y ? -direction : direction);
+    });
+
+    const offset = query.cursor ? decodeCursor(query.cursor) : 0;
+    const streams = matches.slice(offset, offset + query.limit);
+    const next = offset + streams.length;
+    return {
+        streams,
+        total: matches.length,
+        nextCursor: next < matches.length ? encodeCursor(next) : undefined
+    };
+}
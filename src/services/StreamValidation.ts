@@ -0,0 +1,288 @@
+import { AccountAddress, Aptos } from "@aptos-labs/ts-sdk";
+
+const APT_COIN_TYPE = '0x1::aptos_coin::AptosCoin';
+const APT_FA_ADDRESS = AccountAddress.A.toString();
+// Rough gas units used by one stream creation, for the balance check
+const ESTIMATED_GAS_UNITS_PER_STREAM = 10000n;
+// Leeway for clocks and the time the transaction takes to land
+const START_TIME_GRACE_SECONDS = 60;
+
+/**
+ * One problem found before building a stream transaction, with how to fix it
+ */
+export interface StreamValidationIssue {
+    field: string;
+    code: string;
+    message: string;
+    suggestion: string;
+}
+
+/**
+ * The stream (or batch of streams) a tool is about to create
+ */
+export interface StreamDraft {
+    isFa: boolean;
+    coinType?: string;
+    assetType?: string;
+    startTime: number;
+    stopTime: number;
+    cliffTime: number;
+    interval: number;
+    streams: Array<{ recipient: string; depositAmount: bigint; cliffAmount: bigint }>;
+}
+
+function isAptos(draft: StreamDraft): boolean {
+    if (draft.isFa) {
+        try {
+            return !!draft.assetType && AccountAddress.from(draft.assetType).toString() === APT_FA_ADDRESS;
+        } catch {
+            return false;
+        }
+    }
+    return draft.coinType === APT_COIN_TYPE;
+}
+
+function isAccountNotFound(error: any): boolean {
+    return error?.status === 404
+        || error?.data?.error_code === 'account_not_found'
+        || /account_not_found/i.test(error?.message ?? '');
+}
+
+/**
+ * Check the parameters against each other and the clock
+ * @param now Current time in seconds since epoch
+ */
+export function checkStreamParameters(draft: StreamDraft, now: number = Math.floor(Date.now() / 1000)): StreamValidationIssue[] {
+    const issues: StreamValidationIssue[] = [];
+    const duration = draft.stopTime - draft.startTime;
+
+    if (draft.isFa && !draft.assetType) {
+        issues.push({
+            field: 'assetType',
+            code: 'missing_asset_type',
+            message: 'assetType is required when isFa is true',
+            suggestion: 'Pass the fungible asset metadata address as assetType, or set isFa to false and pass coinType'
+        });
+    }
+    if (!draft.isFa && !draft.coinType) {
+        issues.push({
+            field: 'coinType',
+            code: 'missing_coin_type',
+            message: 'coinType is required for coin streams',
+            suggestion: `Pass the coin type, e.g. ${APT_COIN_TYPE}, or set isFa to true and pass assetType`
+        });
+    }
+
+    if (draft.startTime < now - START_TIME_GRACE_SECONDS) {
+        issues.push({
+            field: 'startTime',
+            code: 'start_in_past',
+            message: `startTime ${draft.startTime} is in the past (now is ${now})`,
+            suggestion: `Start at or after the current time, e.g. startTime ${now + 300} (in 5 minutes), and move stopTime by the same amount`
+        });
+    }
+
+    if (duration <= 0) {
+        issues.push({
+            field: 'stopTime',
+            code: 'stop_not_after_start',
+            message: `stopTime ${draft.stopTime} must be later than startTime ${draft.startTime}`,
+            suggestion: `Set stopTime after startTime, e.g. ${draft.startTime + 30 * 86400} for a 30 day stream`
+        });
+    }
+
+    if (draft.interval <= 0) {
+        issues.push({
+            field: 'interval',
+            code: 'interval_not_positive',
+            message: 'interval must be greater than 0',
+            suggestion: 'Use the release period in seconds, e.g. 86400 for daily releases'
+        });
+    } else if (duration > 0 && draft.interval > duration) {
+        issues.push({
+            field: 'interval',
+            code: 'interval_longer_than_duration',
+            message: `interval ${draft.interval}s is longer than the stream duration ${duration}s`,
+            suggestion: `Use an interval of at most ${duration}s, or extend stopTime to at least ${draft.startTime + draft.interval}`
+        });
+    }
+
+    if (draft.cliffTime > 0) {
+        if (draft.cliffTime > draft.stopTime) {
+            issues.push({
+                field: 'cliffTime',
+                code: 'cliff_after_stop',
+                message: `cliffTime ${draft.cliffTime} is after stopTime ${draft.stopTime}`,
+                suggestion: `Set cliffTime between startTime and stopTime, or 0 for no cliff`
+            });
+        } else if (draft.cliffTime < draft.startTime) {
+            issues.push({
+                field: 'cliffTime',
+                code: 'cliff_before_start',
+                message: `cliffTime ${draft.cliffTime} is before startTime ${draft.startTime}`,
+                suggestion: `Set cliffTime at or after startTime ${draft.startTime}, or 0 for no cliff`
+            });
+        }
+    }
+
+    draft.streams.forEach((stream, index) => {
+        const at = draft.streams.length > 1 ? `[${index}]` : '';
+        try {
+            AccountAddress.from(stream.recipient);
+        } catch {
+            issues.push({
+                field: `recipient${at}`,
+                code: 'invalid_recipient',
+                message: `${stream.recipient} is not a valid account address`,
+                suggestion: 'Use a 0x-prefixed hex account address'
+            });
+        }
+        if (stream.depositAmount <= 0n) {
+            issues.push({
+                field: `depositAmount${at}`,
+                code: 'deposit_not_positive',
+                message: 'depositAmount must be greater than 0',
+                suggestion: "Give the amount in the coin's base units, e.g. 100000000 for 1 APT"
+            });
+        }
+        if (stream.cliffAmount > stream.depositAmount) {
+            issues.push({
+                field: `cliffAmount${at}`,
+                code: 'cliff_exceeds_deposit',
+                message: `cliffAmount ${stream.cliffAmount} is larger than depositAmount ${stream.depositAmount}`,
+                suggestion: `Use a cliffAmount of at most ${stream.depositAmount}`
+            });
+        }
+    });
+
+    return issues;
+}
+
+/**
+ * Check the draft against chain state: that recipients exist, and that the funding account holds the deposits
+ * and the gas payer enough APT for gas. Lookups that fail for other reasons (e.g. the node is unreachable)
+ * are skipped, not reported.
+ * @param funder Account paying the deposits, or null when it is not known yet
+ * @param gasPayer Account paying gas, or null to skip the gas check
+ */
+export async function checkStreamAgainstChain(
+    aptosClient: Aptos,
+    draft: StreamDraft,
+    funder: string | null,
+    gasPayer: string | null = funder
+): Promise<StreamValidationIssue[]> {
+    const issues: StreamValidationIssue[] = [];
+
+    const recipients = Array.from(new Set(draft.streams.map(stream => stream.recipient)));
+    await Promise.all(recipients.map(async recipient => {
+        try {
+            await aptosClient.getAccountInfo({ accountAddress: recipient });
+        } catch (error: any) {
+            if (isAccountNotFound(error)) {
+                issues.push({
+                    field: 'recipient',
+                    code: 'recipient_not_found',
+                    message: `Recipient account ${recipient} does not exist on chain`,
+                    suggestion: 'Check the address for typos, or create and fund the recipient account first'
+                });
+            }
+        }
+    }));
+
+    const total = draft.streams.reduce((sum, stream) => sum + stream.depositAmount, 0n);
+    let gas = 0n;
+    if (gasPayer) {
+        try {
+            const estimation = await aptosClient.getGasPriceEstimation();
+            gas = BigInt(estimation.gas_estimate) * ESTIMATED_GAS_UNITS_PER_STREAM * BigInt(draft.streams.length);
+        } catch {
+            gasPayer = null;
+        }
+    }
+    // APT deposits and gas come out of the same balance when one account pays both
+    const combined = gasPayer !== null && funder !== null && isAptos(draft)
+        && AccountAddress.from(funder).equals(AccountAddress.from(gasPayer));
+
+    if (funder && (draft.coinType || draft.assetType)) {
+        try {
+            const balance = await getBalance(aptosClient, funder, draft);
+            const needed = combined ? total + gas : total;
+            if (balance < needed) {
+                const token = isAptos(draft) ? 'octas of APT' : `of ${draft.isFa ? draft.assetType : draft.coinType}`;
+                issues.push({
+                    field: 'depositAmount',
+                    code: 'insufficient_balance',
+                    message: combined
+                        ? `${funder} holds ${balance} ${token}, but the deposits (${total}) plus about ${gas} for gas need ${needed}`
+                        : `${funder} holds ${balance} ${token}, but the deposits need ${needed}`,
+                    suggestion: `Fund ${funder} with at least ${needed - balance} more, or lower the deposit`
+                });
+            }
+        } catch {
+            // Balance could not be read; the simulation will still catch a shortfall
+        }
+    }
+
+    if (gasPayer && !combined) {
+        try {
+            const aptBalance = await getBalance(aptosClient, gasPayer, { isFa: false, coinType: APT_COIN_TYPE });
+            if (aptBalance < gas) {
+                issues.push({
+                    field: 'sender',
+                    code: 'insufficient_gas',
+                    message: `${gasPayer} holds ${aptBalance} octas of APT, about ${gas} are needed for gas`,
+                    suggestion: `Fund ${gasPayer} with at least ${gas - aptBalance} more octas of APT`
+                });
+            }
+        } catch {
+            // Same as above
+        }
+    }
+
+    return issues;
+}
+
+async function getBalance(
+    aptosClient: Aptos,
+    address: string,
+    token: { isFa: boolean; coinType?: string; assetType?: string }
+): Promise<bigint> {
+    const [balance] = await aptosClient.view({
+        payload: token.isFa
+            ? {
+                function: '0x1::primary_fungible_store::balance',
+                typeArguments: ['0x1::fungible_asset::Metadata'],
+                functionArguments: [address, token.assetType]
+            }
+            : {
+                function: '0x1::coin::balance',
+                typeArguments: [token.coinType as `${string}::${string}::${string}`],
+                functionArguments: [address]
+            }
+    });
+    return BigInt(balance as string | number);
+}
+
+/**
+ * Run every check and collect all problems at once
+ */
+export async function validateStreamDraft(
+    aptosClient: Aptos,
+    draft: StreamDraft,
+    funder: string | null,
+    gasPayer: string | null = funder
+): Promise<StreamValidationIssue[]> {
+    const issues = checkStreamParameters(draft);
+    // Chain lookups are pointless for malformed addresses
+    if (issues.some(issue => issue.code === 'invalid_recipient')) {
+        return issues;
+    }
+    return [...issues, ...await checkStreamAgainstChain(aptosClient, draft, funder, gasPayer)];
+}
+
+/**
+ * Render issues as the text returned by the tool
+ */
+export function formatValidationIssues(issues: StreamValidationIssue[]): string {
+    return `Stream parameters failed validation; nothing was built or signed:\n${JSON.stringify({ issues }, null, 2)}`;
+}
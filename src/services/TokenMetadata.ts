@@ -0,0 +1,51 @@
+import { Aptos } from "@aptos-labs/ts-sdk";
+
+/**
+ * Symbol and decimals of a coin type or fungible asset
+ */
+export interface TokenMetadata {
+    // Coin type, or the metadata address of a fungible asset
+    id: string;
+    symbol: string;
+    // Unknown when the chain could not be asked
+    decimals?: number;
+}
+
+/**
+ * Render a base-unit amount with the token's decimals, e.g. 150000000 with 8 decimals as 1.5
+ */
+export function formatUnits(amount: bigint, decimals?: number): string {
+    if (decimals === undefined || decimals === 0) {
+        return amount.toString();
+    }
+    const base = 10n ** BigInt(decimals);
+    const fraction = (amount % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+    return fraction ? `${amount / base}.${fraction}` : (amount / base).toString();
+}
+
+/**
+ * Look up the symbol and decimals of a coin type or fungible asset
+ * Falls back to the last segment of the type when the chain cannot tell
+ */
+export async function getTokenMetadata(aptosClient: Aptos, id: string, isFa: boolean): Promise<TokenMetadata> {
+    try {
+        const [symbolResult, decimalsResult] = await Promise.all(
+            ['symbol', 'decimals'].map(field => aptosClient.view({
+                payload: isFa
+                    ? {
+                        function: `0x1::fungible_asset::${field}` as `${string}::${string}::${string}`,
+                        typeArguments: ['0x1::fungible_asset::Metadata'],
+                        functionArguments: [id]
+                    }
+                    : {
+                        function: `0x1::coin::${field}` as `${string}::${string}::${string}`,
+                        typeArguments: [id as `${string}::${string}::${string}`],
+                        functionArguments: []
+                    }
+            }))
+        );
+        return { id, symbol: String(symbolResult[0]), decimals: Number(decimalsResult[0]) };
+    } catch {
+        return { id, symbol: id.split('::').pop() || id };
+    }
+}
@@ -0,0 +1,116 @@
+import { Aptos } from "@aptos-labs/ts-sdk";
+
+/**
+ * An event emitted by the MoveFlow module in a committed transaction
+ */
+export interface MoveFlowEvent {
+    type: string;
+    data: any;
+}
+
+/**
+ * Outcome of a transaction looked up on chain
+ */
+export interface TransactionResult {
+    hash: string;
+    // 'pending' when the transaction is known but not committed yet
+    status: 'pending' | 'committed' | 'failed';
+    success?: boolean;
+    vmStatus?: string;
+    gasUsed?: string;
+    version?: string;
+    timestamp?: string;
+    events: MoveFlowEvent[];
+    // Stream ids found in the emitted events, e.g. the id of a newly created stream
+    streamIds: string[];
+}
+
+/**
+ * Raised when a transaction is not committed within the timeout
+ */
+export class ConfirmationTimeoutError extends Error {
+    constructor(public readonly hash: string, timeoutSecs: number) {
+        super(`Transaction ${hash} was not confirmed within ${timeoutSecs} seconds`);
+        this.name = 'ConfirmationTimeoutError';
+    }
+}
+
+/**
+ * Extract the events emitted by the module the transaction called.
+ * The MoveFlow module address is taken from the entry function of the payload,
+ * so framework events such as coin deposits and gas fees are left out.
+ */
+function extractMoveFlowEvents(transaction: any): MoveFlowEvent[] {
+    const entryFunction: string | undefined = transaction.payload?.function;
+    const moduleAddress = entryFunction?.split('::')[0];
+    if (!moduleAddress || !Array.isArray(transaction.events)) {
+        return [];
+    }
+
+    return transaction.events
+        .filter((event: any) => typeof event.type === 'string' && event.type.startsWith(`${moduleAddress}::`))
+        .map((event: any) => ({ type: event.type, data: event.data }));
+}
+
+/**
+ * Summarize a transaction returned by the node
+ */
+export function summarizeTransactionResult(transaction: any): TransactionResult {
+    if (transaction.type === 'pending_transaction') {
+        return { hash: transaction.hash, status: 'pending', events: [], streamIds: [] };
+    }
+
+    const events = extractMoveFlowEvents(transaction);
+    const streamIds = Array.from(new Set(
+        events
+            .map(event => event.data?.stream_id ?? event.data?.id)
+            .filter((id: any) => id !== undefined && id !== null)
+            .map((id: any) => String(id))
+    ));
+
+    return {
+        hash: transaction.hash,
+        status: transaction.success ? 'committed' : 'failed',
+        success: transaction.success,
+        vmStatus: transaction.vm_status,
+        gasUsed: transaction.gas_used,
+        version: transaction.version,
+        timestamp: transaction.timestamp
+            ? new Date(Number(transaction.timestamp) / 1000).toISOString()
+            : undefined,
+        events,
+        streamIds
+    };
+}
+
+/**
+ * Wait until a submitted transaction is committed
+ * @param aptosClient The Aptos client
+ * @param hash The transaction hash
+ * @param timeoutSecs How long to wait before giving up
+ * @returns The committed transaction as returned by the node
+ * @throws ConfirmationTimeoutError if the transaction is still pending after the timeout
+ */
+export async function waitForConfirmation(aptosClient: Aptos, hash: string, timeoutSecs: number): Promise<any> {
+    try {
+        return await aptosClient.waitForTransaction({
+            transactionHash: hash,
+            // Failed transactions are reported through the result instead of throwing
+            options: { timeoutSecs, checkSuccess: false }
+        });
+    } catch (error: any) {
+        // The SDK does not export WaitForTransactionError; it is the only error carrying lastSubmittedTransaction
+        if (error && typeof error === 'object' && 'lastSubmittedTransaction' in error) {
+            throw new ConfirmationTimeoutError(hash, timeoutSecs);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Look up a transaction by hash without waiting
+ * @returns The transaction as returned by the node (pending or committed)
+ */
+export async function lookupTransaction(aptosClient: Aptos, hash: string): Promise<any> {
+    return aptosClient.getTransactionByHash({ transactionHash: hash });
+}
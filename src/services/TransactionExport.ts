@@ -0,0 +1,67 @@
+import {
+    RAW_TRANSACTION_SALT,
+    RAW_TRANSACTION_WITH_DATA_SALT,
+    Hex,
+    SimpleTransaction,
+    TransactionPayloadEntryFunction,
+    deriveTransactionType,
+    generateSigningMessageForTransaction
+} from "@aptos-labs/ts-sdk";
+
+/**
+ * Everything an external wallet needs to sign a prepared transaction offline
+ */
+export interface ExportedTransaction {
+    // BCS bytes of the RawTransaction (or FeePayerRawTransaction for sponsored transactions)
+    rawTransactionBcs: string;
+    // BCS bytes of the full SimpleTransaction, including the fee payer flag
+    simpleTransactionBcs: string;
+    // The exact bytes to sign: sha3-256(domainSeparator) || rawTransactionBcs
+    signingMessage: string;
+    domainSeparator: string;
+    sender: string;
+    sequenceNumber: string;
+    maxGasAmount: string;
+    gasUnitPrice: string;
+    chainId: number;
+    expirationTimestampSecs: string;
+    expiresAt: string;
+    feePayerAddress?: string;
+    // Entry function being called, e.g. 0x1::coin::transfer
+    function?: string;
+    typeArguments?: string[];
+}
+
+/**
+ * Export a prepared transaction as BCS bytes and its signing message
+ * The transaction hash covers the authenticator, so it is not part of the export;
+ * submit-signed-transaction computes it from the signature and returns it.
+ * @param transaction The prepared transaction
+ */
+export function exportTransactionForSigning(transaction: SimpleTransaction): ExportedTransaction {
+    const rawTransaction = transaction.rawTransaction;
+    const expirationSecs = rawTransaction.expiration_timestamp_secs;
+
+    const exported: ExportedTransaction = {
+        rawTransactionBcs: deriveTransactionType(transaction).bcsToHex().toString(),
+        simpleTransactionBcs: transaction.bcsToHex().toString(),
+        signingMessage: Hex.fromHexInput(generateSigningMessageForTransaction(transaction)).toString(),
+        domainSeparator: transaction.feePayerAddress ? RAW_TRANSACTION_WITH_DATA_SALT : RAW_TRANSACTION_SALT,
+        sender: rawTransaction.sender.toString(),
+        sequenceNumber: rawTransaction.sequence_number.toString(),
+        maxGasAmount: rawTransaction.max_gas_amount.toString(),
+        gasUnitPrice: rawTransaction.gas_unit_price.toString(),
+        chainId: rawTransaction.chain_id.chainId,
+        expirationTimestampSecs: expirationSecs.toString(),
+        expiresAt: new Date(Number(expirationSecs) * 1000).toISOString(),
+        feePayerAddress: transaction.feePayerAddress?.toString()
+    };
+
+    if (rawTransaction.payload instanceof TransactionPayloadEntryFunction) {
+        const { entryFunction } = rawTransaction.payload;
+        exported.function = `${entryFunction.module_name.address.toString()}::${entryFunction.module_name.name.identifier}::${entryFunction.function_name.identifier}`;
+        exported.typeArguments = entryFunction.type_args.map(typeArg => typeArg.toString());
+    }
+
+    return exported;
+}
@@ -0,0 +1,91 @@
+/**
+ * Lifecycle states of a transaction prepared by the server
+ *
+ * prepared → awaiting_signature → submitted → committed | failed
+ * prepared | awaiting_signature → expired | cancelled
+ */
+export const TRANSACTION_STATES = [
+    'prepared',
+    'awaiting_signature',
+    'submitted',
+    'committed',
+    'failed',
+    'expired',
+    'cancelled'
+] as const;
+
+export type TransactionState = typeof TRANSACTION_STATES[number];
+
+// Allowed target states for each state
+const ALLOWED_TRANSITIONS: Record<TransactionState, TransactionState[]> = {
+    prepared: ['awaiting_signature', 'submitted', 'expired', 'cancelled'],
+    awaiting_signature: ['submitted', 'expired', 'cancelled'],
+    submitted: ['committed', 'failed'],
+    committed: [],
+    failed: [],
+    expired: [],
+    cancelled: []
+};
+
+/**
+ * A recorded state change
+ */
+export interface TransactionTransition {
+    from: TransactionState | null;
+    to: TransactionState;
+    at: number;
+    note?: string;
+}
+
+/**
+ * Error raised for a transition the state machine does not allow
+ */
+export class TransactionLifecycleError extends Error {
+    constructor(
+        public readonly transactionId: string,
+        public readonly from: TransactionState,
+        public readonly to: TransactionState
+    ) {
+        super(`Transaction ${transactionId} cannot move from '${from}' to '${to}'`);
+        this.name = 'TransactionLifecycleError';
+    }
+}
+
+/**
+ * Whether a state is final
+ */
+export function isTerminalState(state: TransactionState): boolean {
+    return ALLOWED_TRANSITIONS[state].length === 0;
+}
+
+/**
+ * Whether the transaction can still be signed or submitted
+ */
+export function isOutstandingState(state: TransactionState): boolean {
+    return state === 'prepared' || state === 'awaiting_signature';
+}
+
+/**
+ * Check whether a transition is allowed
+ */
+export function canTransition(from: TransactionState, to: TransactionState): boolean {
+    return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Apply a transition to a record, appending it to the record's history
+ * @throws TransactionLifecycleError if the transition is not allowed
+ */
+export function applyTransition<T extends { transactionId: string; state: TransactionState; transitions: TransactionTransition[] }>(
+    record: T,
+    to: TransactionState,
+    note?: string
+): T {
+    if (!canTransition(record.state, to)) {
+        throw new TransactionLifecycleError(record.transactionId, record.state, to);
+    }
+
+    record.transitions.push({ from: record.state, to, at: Date.now(), note });
+    record.state = to;
+    return record;
+}
@@ -1,68 +1,278 @@
-import { SimpleTransaction } from "@aptos-labs/ts-sdk";
+import { AccountAddress, Aptos, SimpleTransaction } from "@aptos-labs/ts-sdk";
+import { PendingTransactionStore, PendingTransactionRecord, MemoryPendingTransactionStore } from "./PendingTransactionStore.js";
+import { TransactionState, applyTransition, isOutstandingState, isTerminalState } from "./TransactionLifecycle.js";
+
+// 待签名交易默认10分钟过期
+const DEFAULT_TTL = 10 * 60 * 1000;
+// 已结束交易默认保留24小时
+const DEFAULT_RETENTION = 24 * 60 * 60 * 1000;
+// 两次清理已结束交易之间的最短间隔
+const PRUNE_INTERVAL = 60 * 1000;
+// 交易哈希为32字节十六进制
+const TRANSACTION_HASH_PATTERN = /^(0x)?[0-9a-fA-F]{64}$/;
 
 /**
  * 交易代理服务 - 负责与客户端通信以处理签名请求
- * 这是一个中间层，接收交易请求，准备交易，然后等待客户端签名
+ * 这是一个中间层，接收交易请求，准备交易，然后等待客户端签名。
+ * 所有工具准备的交易都在这里按统一的生命周期记录状态：
+ * prepared → awaiting_signature → submitted → committed/failed/expired
  */
 export class TransactionProxyService {
-    // 存储待签名交易的队列
-    private pendingTransactions: Map<string, {
-        transaction: SimpleTransaction,
-        resolver: Function,
-        timestamp: number
-    }> = new Map();
+    // 存储交易记录，过期时间由存储中的时间戳决定
+    private pendingTransactions: PendingTransactionStore = new MemoryPendingTransactionStore();
+    private ttl = DEFAULT_TTL;
+    private retention = DEFAULT_RETENTION;
+    private lastPrunedAt = 0;
+    // 用于核对长时间未确认的已提交交易
+    private aptosClient?: Aptos;
+
+    /**
+     * 切换到指定的存储后端（在initAptos中加载持久化存储后调用）
+     * @param store 交易存储
+     * @param options 有效期和已结束交易的保留时长（毫秒），以及用于核对已提交交易的Aptos客户端
+     */
+    async useStore(
+        store: PendingTransactionStore,
+        options: { ttlMs?: number, retentionMs?: number, aptosClient?: Aptos } = {}
+    ) {
+        this.pendingTransactions = store;
+        this.ttl = options.ttlMs ?? DEFAULT_TTL;
+        this.retention = options.retentionMs ?? DEFAULT_RETENTION;
+        this.aptosClient = options.aptosClient;
+
+        // 过期未签名的交易，清理超过保留时长的已结束交易
+        for (const record of store.list()) {
+            await this.expireIfNeeded(record);
+        }
+        await this.pruneFinished(true);
+    }
+
+    /**
+     * 删除超过保留时长的已结束交易，一次写入存储
+     * 提交后超过保留时长仍未确认的交易先查询链上结果：查到则更新为 committed 或 failed，
+     * 节点确认不存在且链上过期时间已过则视为已丢弃，一并删除
+     * 运行期间在准备新交易和列出交易时调用，间隔不足PRUNE_INTERVAL时跳过
+     * @param force 忽略间隔立即清理
+     * @returns 删除的交易数
+     */
+    async pruneFinished(force = false): Promise<number> {
+        const now = Date.now();
+        if (!force && now - this.lastPrunedAt < PRUNE_INTERVAL) {
+            return 0;
+        }
+        this.lastPrunedAt = now;
+
+        const lastChangedAt = (record: PendingTransactionRecord) =>
+            record.transitions[record.transitions.length - 1]?.at ?? record.createdAt;
+
+        const dropped: string[] = [];
+        const unconfirmed = this.pendingTransactions.list()
+            .filter(record => record.state === 'submitted' && now - lastChangedAt(record) > this.retention);
+        for (const record of unconfirmed) {
+            if (await this.isDropped(record, now)) {
+                dropped.push(record.transactionId);
+            }
+        }
+
+        const stale = this.pendingTransactions.list()
+            .filter(record => isTerminalState(record.state) && now - lastChangedAt(record) > this.retention)
+            .map(record => record.transactionId);
+        return this.pendingTransactions.deleteMany([...stale, ...dropped]);
+    }
+
+    /**
+     * 核对长时间未确认的已提交交易
+     * 查到链上结果时更新状态并保留记录；节点返回404且链上过期时间已过时，交易不会再上链
+     * @returns 是否应删除该记录
+     */
+    private async isDropped(record: PendingTransactionRecord, now: number): Promise<boolean> {
+        const chainExpired = Number(record.transaction.rawTransaction.expiration_timestamp_secs) * 1000 < now;
+        if (!record.hash || !this.aptosClient) {
+            // 无法查询链上结果时，只删除早已过期的交易
+            return chainExpired;
+        }
+
+        try {
+            const onChain: any = await this.aptosClient.getTransactionByHash({ transactionHash: record.hash });
+            await this.recordChainResult(record.transactionId, onChain);
+            return false;
+        } catch (error: any) {
+            if (error?.status === 404) {
+                return chainExpired;
+            }
+            console.error(`Failed to look up transaction ${record.hash}:`, error);
+            return false;
+        }
+    }
 
     // 生成唯一的交易ID
     private generateTransactionId(): string {
         return `tx_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
     }
 
+    /**
+     * 登记一笔新准备的交易，初始状态为 prepared
+     * @param transaction 未签名的交易对象
+     * @param options 准备该交易的工具名称
+     */
+    async prepareTransaction(transaction: SimpleTransaction, options: { toolName?: string } = {}): Promise<PendingTransactionRecord> {
+        const createdAt = Date.now();
+        // 链上过期时间早于有效期时，以链上过期时间为准
+        const chainExpiresAt = Number(transaction.rawTransaction.expiration_timestamp_secs) * 1000;
+        const record: PendingTransactionRecord = {
+            transactionId: this.generateTransactionId(),
+            transaction,
+            createdAt,
+            expiresAt: Math.min(createdAt + this.ttl, chainExpiresAt),
+            state: 'prepared',
+            transitions: [{ from: null, to: 'prepared', at: createdAt }],
+            toolName: options.toolName
+        };
+
+        await this.pruneFinished();
+        await this.pendingTransactions.put(record);
+        return record;
+    }
+
     /**
      * 提交交易到代理服务，返回待签名的交易对象和ID
      * @param transaction 未签名的交易对象
+     * @param options 准备该交易的工具名称
      * @returns 包含交易ID的对象，客户端需要使用此ID提交签名后的交易
      */
-    async submitTransaction(transaction: SimpleTransaction): Promise<{
+    async submitTransaction(transaction: SimpleTransaction, options: { toolName?: string } = {}): Promise<{
         transactionId: string,
         payload: any,
         expiresAt: number
     }> {
-        const transactionId = this.generateTransactionId();
-        const expiresAt = Date.now() + 5 * 60 * 1000; // 5分钟过期
-
-        // 创建一个Promise，将在客户端提交签名后resolve
-        const transactionPromise = new Promise((resolve) => {
-            this.pendingTransactions.set(transactionId, {
-                transaction,
-                resolver: resolve,
-                timestamp: Date.now()
-            });
-        });
-
-        // 启动过期清理计时器
-        setTimeout(() => {
-            if (this.pendingTransactions.has(transactionId)) {
-                const pendingTx = this.pendingTransactions.get(transactionId);
-                if (pendingTx) {
-                    pendingTx.resolver({ success: false, error: "Transaction signing timed out" });
-                    this.pendingTransactions.delete(transactionId);
-                }
-            }
-        }, 5 * 60 * 1000);
-
-        // 获取需要发送给客户端的交易有效负载
-        const payload = transaction.rawTransaction;
+        const record = await this.prepareTransaction(transaction, options);
+        await this.requestSignature(record.transactionId);
 
         // 返回交易ID和负载，客户端需使用此信息签名
         return {
-            transactionId,
-            payload,
-            expiresAt
+            transactionId: record.transactionId,
+            payload: transaction.rawTransaction,
+            expiresAt: record.expiresAt
         };
     }
 
     /**
-     * 客户端调用此方法提交签名后的交易
+     * 将交易交给客户端签名
+     * @param transactionId 交易ID
+     */
+    async requestSignature(transactionId: string): Promise<PendingTransactionRecord> {
+        return this.transition(transactionId, 'awaiting_signature');
+    }
+
+    /**
+     * 获取交易记录，已过期的待签名交易会转为 expired 状态
+     * @param transactionId 交易ID
+     */
+    getTransaction(transactionId: string): PendingTransactionRecord | undefined {
+        const record = this.pendingTransactions.get(transactionId);
+        if (record) {
+            this.expireIfNeeded(record).catch(error => console.error("Failed to persist expired transaction:", error));
+        }
+        return record;
+    }
+
+    /**
+     * 列出交易记录，按创建时间倒序
+     * @param filter 可选的状态过滤条件
+     */
+    listTransactions(filter: { states?: TransactionState[] } = {}): PendingTransactionRecord[] {
+        this.pruneFinished().catch(error => console.error("Failed to prune finished transactions:", error));
+        return this.pendingTransactions.list()
+            .map(record => this.getTransaction(record.transactionId) as PendingTransactionRecord)
+            .filter(record => !filter.states || filter.states.includes(record.state))
+            .sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    /**
+     * 记录交易已提交到链上
+     * @param transactionId 交易ID
+     * @param hash 交易哈希
+     * @param details 代付交易计入预算的gas费用（octas）
+     */
+    async markSubmitted(
+        transactionId: string,
+        hash: string,
+        details: { sponsoredFeeOctas?: string } = {}
+    ): Promise<PendingTransactionRecord> {
+        return this.transition(transactionId, 'submitted', `hash ${hash}`, record => {
+            record.hash = hash;
+            if (details.sponsoredFeeOctas) {
+                record.sponsoredFeeOctas = details.sponsoredFeeOctas;
+            }
+        });
+    }
+
+    /**
+     * 记录交易已在链上成功执行
+     */
+    async markCommitted(transactionId: string, vmStatus?: string): Promise<PendingTransactionRecord> {
+        return this.transition(transactionId, 'committed', vmStatus, record => {
+            record.vmStatus = vmStatus;
+        });
+    }
+
+    /**
+     * 记录交易执行失败
+     */
+    async markFailed(transactionId: string, vmStatus?: string): Promise<PendingTransactionRecord> {
+        return this.transition(transactionId, 'failed', vmStatus, record => {
+            record.vmStatus = vmStatus;
+        });
+    }
+
+    /**
+     * 取消尚未提交的交易
+     * @param transactionId 交易ID
+     * @param reason 取消原因
+     */
+    async cancelTransaction(transactionId: string, reason?: string): Promise<PendingTransactionRecord> {
+        return this.transition(transactionId, 'cancelled', reason);
+    }
+
+    /**
+     * 查询链上结果，将已提交的交易更新为 committed 或 failed
+     * @param transactionId 交易ID
+     * @param aptosClient Aptos客户端
+     */
+    async refreshFromChain(transactionId: string, aptosClient: Aptos): Promise<PendingTransactionRecord | undefined> {
+        const record = this.getTransaction(transactionId);
+        if (!record || record.state !== 'submitted' || !record.hash) {
+            return record;
+        }
+
+        try {
+            const onChain: any = await aptosClient.getTransactionByHash({ transactionHash: record.hash });
+            return await this.recordChainResult(transactionId, onChain);
+        } catch (error) {
+            // 节点尚未索引该交易时保持 submitted 状态
+            console.error(`Failed to look up transaction ${record.hash}:`, error);
+            return record;
+        }
+    }
+
+    /**
+     * 根据链上返回的交易更新已提交交易的状态
+     * @param transactionId 交易ID
+     * @param onChain 节点返回的交易（getTransactionByHash或waitForTransaction的结果）
+     */
+    async recordChainResult(transactionId: string, onChain: any): Promise<PendingTransactionRecord | undefined> {
+        const record = this.getTransaction(transactionId);
+        if (!record || record.state !== 'submitted' || onChain.type === 'pending_transaction') {
+            return record;
+        }
+        return onChain.success
+            ? await this.markCommitted(transactionId, onChain.vm_status)
+            : await this.markFailed(transactionId, onChain.vm_status);
+    }
+
+    /**
+     * 客户端自行提交交易后，调用此方法登记交易哈希
+     * 哈希必须是32字节十六进制；可查询链上时，哈希对应的交易须与该交易的发送方和序列号一致
      * @param transactionId 交易ID
      * @param signedTransaction 签名后的交易数据
      */
@@ -70,26 +280,47 @@ export class TransactionProxyService {
         transactionId: string,
         signedTransaction: any
     ): Promise<{ success: boolean, hash?: string, error?: string }> {
-        if (!this.pendingTransactions.has(transactionId)) {
+        const pendingTx = this.getTransaction(transactionId);
+        if (!pendingTx || !isOutstandingState(pendingTx.state)) {
             return { success: false, error: "Transaction not found or expired" };
         }
 
-        const pendingTx = this.pendingTransactions.get(transactionId);
-        if (!pendingTx) {
-            return { success: false, error: "Transaction data not available" };
+        if (!signedTransaction?.hash) {
+            return { success: false, error: "Transaction hash is required" };
         }
+        if (typeof signedTransaction.hash !== 'string' || !TRANSACTION_HASH_PATTERN.test(signedTransaction.hash)) {
+            return { success: false, error: "Transaction hash must be 32 bytes of hex" };
+        }
+        const hash = `0x${signedTransaction.hash.replace(/^0x/, '').toLowerCase()}`;
 
-        // 删除挂起的交易
-        this.pendingTransactions.delete(transactionId);
+        let onChain: any;
+        if (this.aptosClient) {
+            try {
+                onChain = await this.aptosClient.getTransactionByHash({ transactionHash: hash });
+            } catch (error: any) {
+                return {
+                    success: false,
+                    error: error?.status === 404
+                        ? `Transaction ${hash} was not found on chain; submit it before registering its hash`
+                        : `Failed to look up transaction ${hash}: ${error?.message || error}`
+                };
+            }
 
-        // 解析签名后的交易结果
-        pendingTx.resolver({
-            success: true,
-            hash: signedTransaction.hash,
-            data: signedTransaction
-        });
+            const { sender, sequence_number } = pendingTx.transaction.rawTransaction;
+            if (!onChain.sender || !AccountAddress.from(onChain.sender).equals(sender) ||
+                String(onChain.sequence_number) !== sequence_number.toString()) {
+                return {
+                    success: false,
+                    error: `Transaction ${hash} is not transaction ${transactionId} (expected sender ${sender.toString()} with sequence number ${sequence_number})`
+                };
+            }
+        }
 
-        return { success: true, hash: signedTransaction.hash };
+        await this.markSubmitted(transactionId, hash);
+        if (onChain) {
+            await this.recordChainResult(transactionId, onChain);
+        }
+        return { success: true, hash };
     }
 
     /**
@@ -99,37 +330,60 @@ export class TransactionProxyService {
     getTransactionStatus(transactionId: string): {
         exists: boolean,
         pendingSignature: boolean,
-        createdAt?: number
+        state?: TransactionState,
+        createdAt?: number,
+        expiresAt?: number,
+        hash?: string
     } {
-        const pendingTx = this.pendingTransactions.get(transactionId);
+        const pendingTx = this.getTransaction(transactionId);
         if (!pendingTx) {
             return { exists: false, pendingSignature: false };
         }
 
         return {
             exists: true,
-            pendingSignature: true,
-            createdAt: pendingTx.timestamp
+            pendingSignature: isOutstandingState(pendingTx.state),
+            state: pendingTx.state,
+            createdAt: pendingTx.createdAt,
+            expiresAt: pendingTx.expiresAt,
+            hash: pendingTx.hash
         };
     }
 
     /**
-     * 定期清理过期的交易
+     * 执行状态转换并持久化
      */
-    startCleanupTask() {
-        setInterval(() => {
-            const now = Date.now();
-            for (const [txId, tx] of this.pendingTransactions.entries()) {
-                // 清理超过5分钟的交易
-                if (now - tx.timestamp > 5 * 60 * 1000) {
-                    tx.resolver({ success: false, error: "Transaction signing timed out" });
-                    this.pendingTransactions.delete(txId);
-                }
-            }
-        }, 60000); // 每分钟检查一次
+    private async transition(
+        transactionId: string,
+        to: TransactionState,
+        note?: string,
+        update?: (record: PendingTransactionRecord) => void
+    ): Promise<PendingTransactionRecord> {
+        const record = this.getTransaction(transactionId);
+        if (!record) {
+            throw new Error(`Transaction with ID ${transactionId} not found`);
+        }
+
+        applyTransition(record, to, note);
+        update?.(record);
+        await this.pendingTransactions.put(record);
+        return record;
+    }
+
+    /**
+     * 未签名提交且超过有效期的交易转为 expired
+     * @returns 是否发生了过期
+     */
+    private async expireIfNeeded(record: PendingTransactionRecord): Promise<boolean> {
+        if (!isOutstandingState(record.state) || record.expiresAt > Date.now()) {
+            return false;
+        }
+
+        applyTransition(record, 'expired', 'signature not received before expiry');
+        await this.pendingTransactions.put(record);
+        return true;
     }
 }
 
 // 创建单例实例
 export const transactionProxyService = new TransactionProxyService();
-transactionProxyService.startCleanupTask();
@@ -1,4 +1,6 @@
 import { aptos } from "@moveflow/aptos-sdk";
+import { TransactionState } from "./TransactionLifecycle.js";
+import { ClientSignedData } from "./SignatureAuthenticator.js";
 
 /**
  * Interface for transaction signing services
@@ -17,20 +19,27 @@ export interface TransactionSigningService {
         signer?: aptos.Account
     ): Promise<any>;
     
+    /**
+     * Turn a transaction into a sponsored (fee payer) transaction before client signing,
+     * if the service sponsors gas and the budgets allow it
+     * @param transaction The transaction prepared for client signing
+     * @returns The transaction to hand to the client, whether it is sponsored and why not
+     */
+    sponsorTransaction?(transaction: aptos.SimpleTransaction): {
+        transaction: aptos.SimpleTransaction;
+        sponsored: boolean;
+        reason?: string;
+    };
+
     /**
      * Submit a client-signed transaction
      * @param transactionId The ID of the transaction
-     * @param signedData The signed transaction data
+     * @param signedData The typed signature and sender of the transaction
      * @returns The transaction response
      */
     submitSignedTransaction(
         transactionId: string,
-        signedData: {
-            signature: string;
-            public_key: string;
-            sender: string;
-            transaction_hash?: string;
-        }
+        signedData: ClientSignedData
     ): Promise<any>;
 
     /**
@@ -42,5 +51,6 @@ export interface TransactionSigningService {
         found: boolean;
         transaction?: aptos.SimpleTransaction;
         age?: number;
+        state?: TransactionState;
     };
 }
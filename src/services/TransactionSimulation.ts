@@ -0,0 +1,219 @@
+import {
+    Account,
+    AccountAddress,
+    AnyPublicKey,
+    Aptos,
+    Ed25519PublicKey,
+    PublicKey,
+    Secp256k1PublicKey,
+    SimpleTransaction,
+    UserTransactionResponse
+} from "@aptos-labs/ts-sdk";
+
+const OCTAS_PER_APT = 100000000;
+const COIN_STORE_PREFIX = "0x1::coin::CoinStore<";
+const FUNGIBLE_STORE_TYPE = "0x1::fungible_asset::FungibleStore";
+
+/**
+ * Change of one account's balance caused by a simulated transaction
+ */
+export interface BalanceChange {
+    // Account for coin balances, store object for fungible asset balances
+    address: string;
+    // Coin type or fungible asset metadata address
+    asset: string;
+    before: string;
+    after: string;
+    change: string;
+}
+
+/**
+ * Result of simulating a prepared transaction
+ */
+export interface SimulationSummary {
+    success: boolean;
+    vmStatus: string;
+    gasUsed: string;
+    gasUnitPrice: string;
+    maxGasAmount: string;
+    // Fee for the simulated gas usage, in APT
+    estimatedFeeApt: string;
+    // Upper bound of the fee (max gas amount × gas unit price), in APT
+    maxGasFeeApt: string;
+    balanceChanges: BalanceChange[];
+    // Events the transaction would emit
+    events: Array<{ type: string; data: any }>;
+}
+
+/**
+ * Raised when no public key is available for a simulation
+ */
+export class SimulationUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SimulationUnavailableError';
+    }
+}
+
+function octasToApt(octas: bigint): string {
+    return (Number(octas) / OCTAS_PER_APT).toString();
+}
+
+/**
+ * Parse a public key from a REST signature object
+ */
+function publicKeyFromSignature(signature: any): PublicKey | undefined {
+    if (!signature) {
+        return undefined;
+    }
+
+    switch (signature.type) {
+        case 'ed25519_signature':
+            return new Ed25519PublicKey(signature.public_key);
+        case 'single_sender': {
+            const key = signature.public_key;
+            if (key?.type === 'ed25519') {
+                return new AnyPublicKey(new Ed25519PublicKey(key.value));
+            }
+            if (key?.type === 'secp256k1_ecdsa') {
+                return new AnyPublicKey(new Secp256k1PublicKey(key.value));
+            }
+            return undefined;
+        }
+        case 'fee_payer_signature':
+        case 'multi_agent_signature':
+            return publicKeyFromSignature(signature.sender);
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Find the public key to simulate with.
+ * Uses the explicit key, then the server signer if it is the sender,
+ * then the key from the sender's most recent transaction.
+ */
+export async function resolveSimulationPublicKey(
+    aptosClient: Aptos,
+    transaction: SimpleTransaction,
+    options: { publicKey?: string; signer?: Account | null } = {}
+): Promise<PublicKey> {
+    if (options.publicKey) {
+        return new Ed25519PublicKey(options.publicKey);
+    }
+
+    const sender = transaction.rawTransaction.sender;
+    if (options.signer && AccountAddress.from(options.signer.accountAddress.toString()).equals(AccountAddress.from(sender.toString()))) {
+        return options.signer.publicKey;
+    }
+
+    const history = await aptosClient.getAccountTransactions({
+        accountAddress: sender.toString(),
+        options: { limit: 1 }
+    }).catch(() => []);
+    const publicKey = history.length > 0 ? publicKeyFromSignature((history[0] as any).signature) : undefined;
+
+    if (!publicKey) {
+        throw new SimulationUnavailableError(
+            `No public key known for sender ${sender.toString()}; provide publicKey to simulate`
+        );
+    }
+    return publicKey;
+}
+
+/**
+ * Read the balances held in the resources touched by the simulation
+ * and compare them with the current on-chain values
+ */
+async function collectBalanceChanges(aptosClient: Aptos, result: UserTransactionResponse): Promise<BalanceChange[]> {
+    const changes: BalanceChange[] = [];
+
+    for (const change of result.changes as any[]) {
+        if (change.type !== 'write_resource') {
+            continue;
+        }
+
+        const resourceType: string = change.data?.type || '';
+        let asset: string;
+        let after: bigint;
+
+        if (resourceType.startsWith(COIN_STORE_PREFIX)) {
+            asset = resourceType.slice(COIN_STORE_PREFIX.length, -1);
+            after = BigInt(change.data.data.coin.value);
+        } else if (resourceType === FUNGIBLE_STORE_TYPE) {
+            asset = change.data.data.metadata.inner;
+            after = BigInt(change.data.data.balance);
+        } else {
+            continue;
+        }
+
+        let before = 0n;
+        try {
+            const current: any = await aptosClient.getAccountResource({
+                accountAddress: change.address,
+                resourceType: resourceType as `${string}::${string}::${string}`
+            });
+            before = BigInt(resourceType === FUNGIBLE_STORE_TYPE ? current.balance : current.coin.value);
+        } catch {
+            // The store is created by this transaction
+        }
+
+        if (after !== before) {
+            changes.push({
+                address: change.address,
+                asset,
+                before: before.toString(),
+                after: after.toString(),
+                change: (after - before).toString()
+            });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Simulate a prepared transaction and summarize gas and balance effects
+ * @param aptosClient The Aptos client
+ * @param transaction The prepared transaction
+ * @param options Public key to simulate with, or the server signer; the fee payer for sponsored transactions
+ */
+export async function simulateTransaction(
+    aptosClient: Aptos,
+    transaction: SimpleTransaction,
+    options: { publicKey?: string; signer?: Account | null; feePayer?: Account | null } = {}
+): Promise<SimulationSummary> {
+    const signerPublicKey = await resolveSimulationPublicKey(aptosClient, transaction, options);
+
+    let feePayerPublicKey: PublicKey | undefined;
+    if (transaction.feePayerAddress) {
+        if (!options.feePayer) {
+            throw new SimulationUnavailableError(
+                `No public key known for fee payer ${transaction.feePayerAddress.toString()}`
+            );
+        }
+        feePayerPublicKey = options.feePayer.publicKey;
+    }
+
+    const [result] = await aptosClient.transaction.simulate.simple({
+        signerPublicKey,
+        feePayerPublicKey,
+        transaction
+    });
+
+    const gasUnitPrice = BigInt(result.gas_unit_price);
+    const gasUsed = BigInt(result.gas_used);
+    const maxGasAmount = BigInt(result.max_gas_amount);
+
+    return {
+        success: result.success,
+        vmStatus: result.vm_status,
+        gasUsed: gasUsed.toString(),
+        gasUnitPrice: gasUnitPrice.toString(),
+        maxGasAmount: maxGasAmount.toString(),
+        estimatedFeeApt: octasToApt(gasUsed * gasUnitPrice),
+        maxGasFeeApt: octasToApt(maxGasAmount * gasUnitPrice),
+        balanceChanges: await collectBalanceChanges(aptosClient, result),
+        events: result.events.map(event => ({ type: event.type, data: event.data }))
+    };
+}
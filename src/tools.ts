@@ -1,6 +1,15 @@
 import { z } from "zod";
 import { AccountAddress, AccountAddress as NewAccountAddress } from "@aptos-labs/ts-sdk";
-import { getStreamInstance } from "./aptos.js";
+import {
+    getAccountForAddress,
+    getAptosClient,
+    getNameResolver,
+    getServerAccountAddress,
+    getSigningService,
+    getSponsorAccount,
+    getStreamInstance,
+    resolveSender
+} from "./aptos.js";
 import {
     CreateStreamParams,
     StreamOperateParams,
@@ -11,13 +20,44 @@ import {
     OperateType
 } from "@moveflow/aptos-sdk";
 import { aptos } from "@moveflow/aptos-sdk";
-import { getConfig, getTransactionExecutorConfig } from "./config.js";
+import { getConfig, getConfirmationConfig, getMoveFlowConfig, getTransactionExecutorConfig } from "./config.js";
 import { helper } from "@moveflow/aptos-sdk";
 import { canExecuteTransaction } from "./utils.js";
 import { serialize, deserialize } from "./utils.js";
+import { SimulationSummary, simulateTransaction } from "./services/TransactionSimulation.js";
+import { lookupTransaction, summarizeTransactionResult, waitForConfirmation } from "./services/TransactionConfirmation.js";
+import { transactionProxyService } from "./services/TransactionProxyService.js";
+import {
+    StreamDraft,
+    checkStreamParameters,
+    formatValidationIssues,
+    validateStreamDraft
+} from "./services/StreamValidation.js";
+import { annotateStreamNames, normalizeAddress, resolveRecipient } from "./services/NameResolver.js";
+import { STREAM_STATUSES, getLedgerTimeSeconds, normalizeStream, queryStreams } from "./services/StreamRecords.js";
+import { fetchAccountStreams, fetchAccountSummary, fetchStreamHistoryEvents } from "./resources.js";
+import { formatAccountSummary } from "./services/AccountSummary.js";
+import { formatStreamTimeline } from "./services/StreamHistory.js";
+import {
+    StreamTerms,
+    computeStreamBalance,
+    formatScheduleCsv,
+    projectSchedule,
+    ratePerInterval,
+    termsOf
+} from "./services/StreamAccrual.js";
+import { StreamOperation, checkStreamOperation, readStreamPermissionState } from "./services/StreamPermissions.js";
+import {
+    buildMultisigExecution,
+    buildMultisigProposal,
+    buildMultisigVote,
+    describeProposedCall,
+    listMultisigProposals
+} from "./services/MultisigProposals.js";
+import { policyEngine } from "./services/PolicyEngine.js";
 
 // 增强版交易响应格式化函数
-function formatTransactionResponse(response: any, params?: any): any {
+export function formatTransactionResponse(response: any, params?: any): any {
     // 首先确保任何BigInt值都被转为字符串
     response = safeSerialize(response);
 
@@ -26,7 +66,7 @@ function formatTransactionResponse(response: any, params?: any): any {
         timestamp: new Date().toISOString(),
         metadata: {
             network: getConfig().aptosNetwork,
-            gasEstimate: response?.gasUsed || 0,
+            gasEstimate: response?.gas_used || 0,
             transactionType: 'stream_create'
         }
     };
@@ -52,9 +92,17 @@ function formatTransactionResponse(response: any, params?: any): any {
     // 已提交的交易详情
     if (response.hash) {
         // 添加交易状态检查的标志
+        let status = "submitted";
         let statusText = "已提交";
         let statusIcon = "✅";
 
+        // 有success字段说明是已上链的交易（waitForTransaction或按哈希查询的结果）
+        const result = response.success === undefined ? undefined : summarizeTransactionResult(response);
+        if (result) {
+            status = result.status;
+            statusText = "已确认";
+        }
+
         // 如果有success字段（waitForTransaction的结果），检查交易是否真正成功
         if (response.success === false) {
             baseResponse.success = false;
@@ -76,14 +124,20 @@ function formatTransactionResponse(response: any, params?: any): any {
             content: [{
                 type: "text",
                 text: JSON.stringify({
-                    status: "submitted",
+                    status,
                     message: `${statusIcon} 交易${statusText}`,
                     transactionHash: response.hash,
                     explorerLink: explorerLink,
                     vmStatus: response.vm_status,
-                    gasUsed: response.gas_used || baseResponse.metadata.gasEstimate
+                    gasUsed: response.gas_used || baseResponse.metadata.gasEstimate,
+                    version: result?.version,
+                    timestamp: result?.timestamp,
+                    // 新创建的流ID（来自MoveFlow事件）
+                    streamId: result?.streamIds[0],
+                    events: result?.events
                 }, null, 2)
-            }]
+            }],
+            isError: baseResponse.success ? undefined : true
         };
     }
 
@@ -98,14 +152,21 @@ function formatTransactionResponse(response: any, params?: any): any {
 }
 
 // 格式化交易预览
-function formatPreviewTransaction(response: any, params?: any, baseResponse?: any): any {
+// details 中的字段会附加到预览结果中（可覆盖默认的流预览）
+function formatPreviewTransaction(
+    response: any,
+    params?: any,
+    baseResponse?: any,
+    simulation?: SimulationSummary | string,
+    details?: Record<string, any>
+): any {
     if (!baseResponse) {
         baseResponse = {
             success: true,
             timestamp: new Date().toISOString(),
             metadata: {
                 network: getConfig().aptosNetwork,
-                gasEstimate: response?.gasUsed || 0,
+                gasEstimate: typeof simulation === 'object' ? simulation.gasUsed : (response?.gas_used || 0),
                 transactionType: 'stream_create'
             }
         };
@@ -152,13 +213,30 @@ function formatPreviewTransaction(response: any, params?: any, baseResponse?: an
         endTime = new Date(Number(params.stop_time) * 1000).toLocaleString();
     }
 
+    // 模拟结果：字符串表示无法模拟的原因
+    let message = "✅ 交易已创建但未执行 (设置 execute: true 提交到链上)";
+    let simulationPreview: any = typeof simulation === 'string' ? { skipped: simulation } : undefined;
+    if (typeof simulation === 'object') {
+        if (!simulation.success) {
+            message = `⚠️ 交易已创建但模拟执行失败: ${simulation.vmStatus}`;
+        }
+        simulationPreview = {
+            success: simulation.success,
+            vmStatus: simulation.vmStatus,
+            estimatedFee: `${simulation.estimatedFeeApt} APT`,
+            maxGasFee: `${simulation.maxGasFeeApt} APT`,
+            balanceChanges: simulation.balanceChanges
+        };
+    }
+
     return {
         ...baseResponse,
         content: [{
             type: "text",
             text: JSON.stringify({
                 status: "pending",
-                message: "✅ 交易已创建但未执行 (设置 execute: true 提交到链上)",
+                message,
+                simulation: simulationPreview,
                 preview: {
                     streamName: params?.name || "未命名",
                     recipient: params?.recipient ? params?.recipient.toString() : "未设置",
@@ -168,7 +246,8 @@ function formatPreviewTransaction(response: any, params?: any, baseResponse?: an
                     endTime: endTime,
                     autoWithdraw: params?.auto_withdraw ? '启用' : '禁用',
                     gasEstimate: `${baseResponse.metadata.gasEstimate} gas单位`
-                }
+                },
+                ...details
             }, null, 2)
         }]
     };
@@ -216,26 +295,165 @@ function formatErrorResponse(error: any): any {
     };
 }
 
+// 构建交易前校验流参数与链上状态，一次返回全部问题及修改建议
+// 存款由多签账户或发送方支付，Gas由发送方（多签时为提案人）支付；账户未知时跳过余额检查
+async function preflightStream(
+    draft: StreamDraft,
+    options: { sender?: string, multisigAddress?: string, multisigOwner?: string }
+): Promise<any | null> {
+    const sender = options.sender ? resolveSender(options.sender).address.toString() : getServerAccountAddress();
+    const gasPayer = options.multisigAddress && options.multisigOwner
+        ? resolveSender(options.multisigOwner).address.toString()
+        : sender;
+    const issues = await validateStreamDraft(getAptosClient(), draft, options.multisigAddress ?? sender, gasPayer);
+    return issues.length > 0 ? formatErrorResponse({ message: formatValidationIssues(issues) }) : null;
+}
+
+// 构建交易前读取流的状态和权限设置，操作方无权执行或流状态不允许时直接拒绝
+// 操作方为多签账户或发送方；账户未知时只检查流的状态
+async function checkStreamPermission(
+    streamId: string,
+    operation: StreamOperation,
+    options: { sender?: string, multisigAddress?: string, extendTime?: number }
+): Promise<any | null> {
+    const streamInfo = await getStreamInstance().fetchStream(streamId);
+    if (!streamInfo) {
+        return formatErrorResponse({ message: `Stream ${streamId} not found` });
+    }
+
+    const actor = options.multisigAddress
+        ?? (options.sender ? resolveSender(options.sender).address.toString() : getServerAccountAddress());
+    const refusals = checkStreamOperation(readStreamPermissionState(streamInfo), operation, actor, options.extendTime);
+    if (refusals.length === 0) {
+        return null;
+    }
+    return formatErrorResponse({
+        message: `Cannot ${operation} stream ${streamId}; nothing was built or signed:\n` +
+            refusals.map(refusal => `- [${refusal.code}] ${refusal.message}`).join('\n')
+    });
+}
+
+// 将SDK构建的未签名交易交给适配器，由适配器登记生命周期并按签名模式处理
+// 未请求执行时先模拟交易，预览中给出真实的gas估算和余额变化
+// 客户端签名且配置了代付时，交易在此换成由代付账户支付gas的版本
+// 指定多签账户时，将交易的入口函数包装为多签提案（create_transaction）
+async function prepareTransactionResult(
+    response: any,
+    execute: boolean,
+    params?: any,
+    options: { multisigAddress?: string, multisigOwner?: string, details?: Record<string, any> } = {}
+): Promise<any> {
+    if (!response?.rawTransaction) {
+        return formatTransactionResponse(response, params);
+    }
+
+    let details = options.details;
+    if (options.multisigAddress) {
+        const proposal = await buildMultisigProposal(
+            getAptosClient(),
+            response,
+            options.multisigAddress,
+            options.multisigOwner ? resolveSender(options.multisigOwner).address.toString() : undefined
+        );
+        response = proposal.transaction;
+        details = {
+            ...details,
+            multisigProposal: {
+                multisigAddress: options.multisigAddress,
+                proposer: response.rawTransaction.sender.toString(),
+                proposedFunction: proposal.proposedFunction
+            }
+        };
+    }
+
+    // 客户端签名的交易在模拟前换成代付版本，预览模拟的就是交给客户端签名的交易
+    const txConfig = getTransactionExecutorConfig();
+    const sponsorship = txConfig.signingMode === 'client' || txConfig.readOnlyMode
+        ? getSigningService().sponsorTransaction?.(response)
+        : undefined;
+    if (sponsorship) {
+        response = sponsorship.transaction;
+    }
+
+    let simulation: SimulationSummary | string | undefined;
+    if (!execute) {
+        try {
+            simulation = await simulateTransaction(getAptosClient(), response, {
+                signer: getAccountForAddress(response.rawTransaction.sender.toString()),
+                feePayer: getSponsorAccount()
+            });
+        } catch (error: any) {
+            simulation = error.message || "模拟失败";
+        }
+    }
+
+    return {
+        transaction: response,
+        execute,
+        preview: formatPreviewTransaction(response, params, undefined, simulation, details),
+        sponsorship: sponsorship && { sponsored: sponsorship.sponsored, reason: sponsorship.reason }
+    };
+}
+
 // Helper function to handle the AccountAddress version mismatch
-function convertRecipientAddress(address: string): aptos.AccountAddress {
+function convertRecipientAddress(address: string, allowShortAddress = false): aptos.AccountAddress {
     try {
-        // 直接使用AccountAddress进行转换
-        return aptos.AccountAddress.fromString(address);
+        // 默认只接受完整地址，短地址需调用方显式允许
+        return aptos.AccountAddress.fromString(normalizeAddress(address, allowShortAddress));
     } catch (error: any) {
         console.error("Failed to convert address:", error);
         throw new Error(`Failed to convert address ${address}: ${error.message}`);
     }
 }
 
+// 影响解锁排期的参数
+const SCHEDULE_FIELDS = ['stopTime', 'cliffTime', 'interval', 'depositAmount', 'cliffAmount'];
+
+// 将create-stream参数转换为校验和排期计算使用的草稿
+function toStreamDraft(args: {
+    isFa: boolean,
+    coinType?: string,
+    assetType?: string,
+    recipient: string,
+    depositAmount: bigint,
+    cliffAmount: bigint,
+    cliffTime: bigint,
+    startTime: bigint,
+    stopTime: bigint,
+    interval: bigint
+}): StreamDraft {
+    return {
+        isFa: args.isFa,
+        coinType: args.coinType,
+        assetType: args.assetType,
+        startTime: Number(args.startTime),
+        stopTime: Number(args.stopTime),
+        cliffTime: Number(args.cliffTime),
+        interval: Number(args.interval),
+        streams: [{ recipient: args.recipient, depositAmount: args.depositAmount, cliffAmount: args.cliffAmount }]
+    };
+}
+
 // Define schemas first, then use them in tool definitions
 // Zod is used to define parameter schemas for validation and type inference
+
+// Options shared by every write tool
+const writeOptionsShape = {
+    waitForConfirmation: z.boolean().default(false).describe("When executing, wait until the transaction is committed and report its result"),
+    multisigAddress: z.string().optional().describe("Propose the operation to this on-chain multisig account instead of sending it directly"),
+    multisigOwner: z.string().optional().describe("Multisig owner submitting the proposal (defaults to the transaction sender)"),
+    sender: z.string().optional().describe("Keystore account name or address to send from (defaults to the server account)"),
+    idempotencyKey: z.string().optional().describe("Client-chosen key; repeating a call with the same key returns the original result instead of sending another transaction"),
+};
+
 const createStreamInputSchema = z.object({
     name: z.string().describe("Name of the stream"),
     coinType: z.string().describe("Type of coin to transfer, e.g., '0x1::aptos_coin::AptosCoin'"),
     isFa: z.boolean().default(false).describe("Whether this is a FA coin (fungible asset)"),
     assetType: z.string().optional().describe("Asset type for FA coins"),
     streamType: z.enum(["TypeStream", "TypePayment"]).describe("Type of stream: TypeStream or TypePayment"),
-    recipient: z.string().describe("Recipient address as a string (will be converted to AccountAddress internally)"),
+    recipient: z.string().describe("Recipient address, or an Aptos Name Service name such as 'alice.apt'"),
+    allowShortAddress: z.boolean().default(false).describe("Accept short addresses such as 0x1234 for non-special accounts"),
     depositAmount: z.string().transform(v => BigInt(v)).describe("Amount to deposit (as a string)"),
     cliffAmount: z.string().default("0").transform(v => BigInt(v)).describe("Cliff amount (as a string)"),
     cliffTime: z.union([z.string(), z.number()]).default(0).transform(v => typeof v === 'string' ? BigInt(v) : BigInt(v)).describe("Cliff time in seconds since epoch"),
@@ -249,21 +467,21 @@ const createStreamInputSchema = z.object({
     recipientModifiable: z.enum(["Sender", "Recipient", "Both"]).describe("Who can modify recipient: Sender, Recipient, or Both"),
     execute: z.boolean().default(false).describe("Whether to execute the transaction or just create it"),
     remark: z.string().default("").describe("Remark for the stream"),
-});
+}).extend(writeOptionsShape);
 
 const withdrawStreamInputSchema = z.object({
     streamId: z.string().describe("ID of the stream to withdraw from"),
     coinType: z.string().optional().describe("Type of coin for non-FA streams"),
     isFa: z.boolean().default(false).describe("Whether this is a FA coin stream"),
     execute: z.boolean().default(false).describe("Whether to execute the transaction or just create it"),
-});
+}).extend(writeOptionsShape);
 
 const closeStreamInputSchema = z.object({
     streamId: z.string().describe("ID of the stream to close"),
     coinType: z.string().optional().describe("Type of coin for non-FA streams"),
     isFa: z.boolean().default(false).describe("Whether this is a FA coin stream"),
     execute: z.boolean().default(false).describe("Whether to execute the transaction or just create it"),
-});
+}).extend(writeOptionsShape);
 
 const extendStreamInputSchema = z.object({
     streamId: z.string().describe("ID of the stream to extend"),
@@ -271,33 +489,78 @@ const extendStreamInputSchema = z.object({
     coinType: z.string().optional().describe("Type of coin for non-FA streams"),
     isFa: z.boolean().default(false).describe("Whether this is a FA coin stream"),
     execute: z.boolean().default(false).describe("Whether to execute the transaction or just create it"),
-});
+}).extend(writeOptionsShape);
 
 const pauseStreamInputSchema = z.object({
     streamId: z.string().describe("ID of the stream to pause"),
     coinType: z.string().optional().describe("Type of coin for non-FA streams"),
     isFa: z.boolean().default(false).describe("Whether this is a FA coin stream"),
     execute: z.boolean().default(false).describe("Whether to execute the transaction or just create it"),
-});
+}).extend(writeOptionsShape);
 
 const resumeStreamInputSchema = z.object({
     streamId: z.string().describe("ID of the stream to resume"),
     coinType: z.string().optional().describe("Type of coin for non-FA streams"),
     isFa: z.boolean().default(false).describe("Whether this is a FA coin stream"),
     execute: z.boolean().default(false).describe("Whether to execute the transaction or just create it"),
-});
+}).extend(writeOptionsShape);
 
 const getStreamInfoInputSchema = z.object({
     streamId: z.string().describe("ID of the stream to get information for"),
 });
 
+const getStreamBalanceInputSchema = z.object({
+    streamId: z.string().describe("ID of the stream to compute the balance of"),
+});
+
+const getStreamHistoryInputSchema = z.object({
+    streamId: z.string().describe("ID of the stream whose history to show"),
+});
+
+const listStreamsInputSchema = z.object({
+    address: z.string().optional().describe("Account address or .apt name whose streams to list (defaults to the server account)"),
+    direction: z.enum(["incoming", "outgoing", "both"]).default("both").describe("incoming: streams the account receives; outgoing: streams it sends"),
+    status: z.array(z.enum(STREAM_STATUSES)).optional().describe("Only streams in these states"),
+    coinType: z.string().optional().describe("Only streams of this coin type or fungible asset metadata address"),
+    sortBy: z.enum(["startTime", "stopTime", "createdAt", "depositAmount"]).default("startTime").describe("Field to sort by"),
+    order: z.enum(["asc", "desc"]).default("desc").describe("Sort order"),
+    limit: z.number().int().min(1).max(100).default(20).describe("Maximum number of streams to return"),
+    cursor: z.string().optional().describe("nextCursor from the previous page"),
+});
+
+// Either an existing stream, or the arguments create-stream would be called with
+const projectStreamScheduleInputSchema = createStreamInputSchema
+    .pick({
+        isFa: true,
+        coinType: true,
+        assetType: true,
+        recipient: true,
+        depositAmount: true,
+        cliffAmount: true,
+        cliffTime: true,
+        startTime: true,
+        stopTime: true,
+        interval: true
+    })
+    .partial()
+    .extend({
+        streamId: z.string().optional().describe("ID of an existing stream to project; omit to project create-stream arguments"),
+        maxEntries: z.number().int().min(1).max(10000).default(1000).describe("Maximum number of unlocks to list"),
+    });
+
+const getAccountSummaryInputSchema = z.object({
+    address: z.string().optional().describe("Account address or .apt name to summarize (defaults to the server account)"),
+    endingLimit: z.number().int().min(0).max(50).default(5).describe("How many of the streams ending soonest to list"),
+});
+
 const batchCreateStreamInputSchema = z.object({
     names: z.array(z.string()).describe("Names of the streams"),
     coinType: z.string().optional().describe("Type of coin for non-FA streams"),
     isFa: z.boolean().default(false).describe("Whether this is a FA coin stream"),
     assetType: z.string().optional().describe("Asset type for FA coins"),
     streamType: z.enum(["TypeStream", "TypePayment"]).describe("Type of stream: TypeStream or TypePayment"),
-    recipients: z.array(z.string()).describe("Recipient addresses as strings (will be converted to AccountAddress internally)"),
+    recipients: z.array(z.string()).describe("Recipient addresses, or Aptos Name Service names such as 'alice.apt'"),
+    allowShortAddress: z.boolean().default(false).describe("Accept short addresses such as 0x1234 for non-special accounts"),
     depositAmounts: z.array(z.number()).describe("Amounts to deposit"),
     cliffAmounts: z.array(z.number()).optional().describe("Cliff amounts"),
     cliffTime: z.number().default(0).describe("Cliff time in seconds since epoch"),
@@ -311,7 +574,7 @@ const batchCreateStreamInputSchema = z.object({
     recipientModifiable: z.enum(["Sender", "Recipient", "Both"]).describe("Who can modify recipient: Sender, Recipient, or Both"),
     execute: z.boolean().default(false).describe("Whether to execute the transaction or just create it"),
     remark: z.string().default("").describe("Remark for the streams"),
-});
+}).extend(writeOptionsShape);
 
 const batchWithdrawStreamInputSchema = z.object({
     streamIds: z.array(z.string()).describe("IDs of the streams to withdraw from"),
@@ -319,13 +582,14 @@ const batchWithdrawStreamInputSchema = z.object({
     isFa: z.boolean().default(false).describe("Whether these are FA coin streams"),
     assetType: z.string().optional().describe("Asset type for FA coins"),
     execute: z.boolean().default(false).describe("Whether to execute the transaction or just create it"),
-});
+}).extend(writeOptionsShape);
 
 // Tool to create a new stream
 const createStreamTool = {
     name: "create-stream",
     description: "Create a new MoveFlow stream to transfer cryptocurrency over time",
     inputSchema: createStreamInputSchema,
+    capability: "prepare",
     handler: async (args: z.infer<typeof createStreamInputSchema>) => {
         try {
             // Check if we can execute transactions using the utility function
@@ -336,8 +600,13 @@ const createStreamTool = {
                 });
             }
 
+            const validationError = await preflightStream(toStreamDraft(args), args);
+            if (validationError) {
+                return validationError;
+            }
+
             // Get stream instance
-            const stream = getStreamInstance();
+            const stream = getStreamInstance(args.sender);
 
             // Map enum strings to actual enum values
             const streamTypeMap: Record<string, StreamType> = {
@@ -352,10 +621,11 @@ const createStreamTool = {
             };
 
             // Use string address directly
-            const recipientAddress = convertRecipientAddress(args.recipient);
+            const recipientAddress = convertRecipientAddress(args.recipient, args.allowShortAddress);
             // Create stream params
             const params = new CreateStreamParams({
-                execute: args.execute,
+                // 签名与提交统一由适配器按签名模式处理
+                execute: false,
                 coin_type: args.isFa ? undefined : args.coinType,
                 asset_type: args.isFa ? args.assetType : undefined,
                 _remark: args.remark,
@@ -379,7 +649,7 @@ const createStreamTool = {
             // Create the stream
             const response = await stream.createStream(params);
 
-            return formatTransactionResponse(response);
+            return prepareTransactionResult(response, args.execute, params, args);
         } catch (error: any) {
             return formatErrorResponse(error);
         }
@@ -391,6 +661,7 @@ const withdrawStreamTool = {
     name: "withdraw-stream",
     description: "Withdraw funds from a MoveFlow stream",
     inputSchema: withdrawStreamInputSchema,
+    capability: "prepare",
     handler: async (args: z.infer<typeof withdrawStreamInputSchema>) => {
         try {
             // Check if we can execute transactions using the utility function
@@ -402,13 +673,14 @@ const withdrawStreamTool = {
             }
 
             // Get stream instance
-            const stream = getStreamInstance();
+            const stream = getStreamInstance(args.sender);
 
             // Create withdraw params
             const params = new StreamOperateParams({
                 stream_id: args.streamId,
                 coin_type: args.isFa ? undefined : args.coinType,
-                execute: args.execute,
+                // 签名与提交统一由适配器按签名模式处理
+                execute: false,
                 is_fa: args.isFa,
             });
 
@@ -418,7 +690,7 @@ const withdrawStreamTool = {
             // Withdraw from the stream
             const response = await stream.withdrawStream(params);
 
-            return formatTransactionResponse(response);
+            return prepareTransactionResult(response, args.execute, params, args);
         } catch (error: any) {
             return formatErrorResponse(error);
         }
@@ -430,6 +702,7 @@ const closeStreamTool = {
     name: "close-stream",
     description: "Close a MoveFlow stream",
     inputSchema: closeStreamInputSchema,
+    capability: "prepare",
     handler: async (args: z.infer<typeof closeStreamInputSchema>) => {
         try {
             // Check if we can execute transactions using the utility function
@@ -440,21 +713,27 @@ const closeStreamTool = {
                 });
             }
 
+            const permissionError = await checkStreamPermission(args.streamId, "close", args);
+            if (permissionError) {
+                return permissionError;
+            }
+
             // Get stream instance
-            const stream = getStreamInstance();
+            const stream = getStreamInstance(args.sender);
 
             // Create close params
             const params = new StreamOperateParams({
                 stream_id: args.streamId,
                 coin_type: args.isFa ? undefined : args.coinType,
-                execute: args.execute,
+                // 签名与提交统一由适配器按签名模式处理
+                execute: false,
                 is_fa: args.isFa,
             });
 
             // Close the stream
             const response = await stream.closeStream(params);
 
-            return formatTransactionResponse(response);
+            return prepareTransactionResult(response, args.execute, params, args);
         } catch (error: any) {
             return formatErrorResponse(error);
         }
@@ -466,6 +745,7 @@ const extendStreamTool = {
     name: "extend-stream",
     description: "Extend the duration of a MoveFlow stream",
     inputSchema: extendStreamInputSchema,
+    capability: "prepare",
     handler: async (args: z.infer<typeof extendStreamInputSchema>) => {
         try {
             // Check if we can execute transactions using the utility function
@@ -476,14 +756,20 @@ const extendStreamTool = {
                 });
             }
 
+            const permissionError = await checkStreamPermission(args.streamId, "extend", args);
+            if (permissionError) {
+                return permissionError;
+            }
+
             // Get stream instance
-            const stream = getStreamInstance();
+            const stream = getStreamInstance(args.sender);
 
             // Create extend params
             const params = new StreamOperateParams({
                 stream_id: args.streamId,
                 coin_type: args.isFa ? undefined : args.coinType,
-                execute: args.execute,
+                // 签名与提交统一由适配器按签名模式处理
+                execute: false,
                 is_fa: args.isFa,
                 extend_time: args.extendTime,
             });
@@ -494,7 +780,7 @@ const extendStreamTool = {
             // Extend the stream
             const response = await stream.extendStream(params);
 
-            return formatTransactionResponse(response);
+            return prepareTransactionResult(response, args.execute, params, args);
         } catch (error: any) {
             return formatErrorResponse(error);
         }
@@ -506,6 +792,7 @@ const pauseStreamTool = {
     name: "pause-stream",
     description: "Pause a MoveFlow stream",
     inputSchema: pauseStreamInputSchema,
+    capability: "prepare",
     handler: async (args: z.infer<typeof pauseStreamInputSchema>) => {
         try {
             // Check if we can execute transactions using the utility function
@@ -516,21 +803,27 @@ const pauseStreamTool = {
                 });
             }
 
+            const permissionError = await checkStreamPermission(args.streamId, "pause", args);
+            if (permissionError) {
+                return permissionError;
+            }
+
             // Get stream instance
-            const stream = getStreamInstance();
+            const stream = getStreamInstance(args.sender);
 
             // Create pause params
             const params = new StreamOperateParams({
                 stream_id: args.streamId,
                 coin_type: args.isFa ? undefined : args.coinType,
-                execute: args.execute,
+                // 签名与提交统一由适配器按签名模式处理
+                execute: false,
                 is_fa: args.isFa,
             });
 
             // Pause the stream
             const response = await stream.pauseStream(params);
 
-            return formatTransactionResponse(response);
+            return prepareTransactionResult(response, args.execute, params, args);
         } catch (error: any) {
             return formatErrorResponse(error);
         }
@@ -542,6 +835,7 @@ const resumeStreamTool = {
     name: "resume-stream",
     description: "Resume a paused MoveFlow stream",
     inputSchema: resumeStreamInputSchema,
+    capability: "prepare",
     handler: async (args: z.infer<typeof resumeStreamInputSchema>) => {
         try {
             // Check if we can execute transactions using the utility function
@@ -552,21 +846,27 @@ const resumeStreamTool = {
                 });
             }
 
+            const permissionError = await checkStreamPermission(args.streamId, "resume", args);
+            if (permissionError) {
+                return permissionError;
+            }
+
             // Get stream instance
-            const stream = getStreamInstance();
+            const stream = getStreamInstance(args.sender);
 
             // Create resume params
             const params = new StreamOperateParams({
                 stream_id: args.streamId,
                 coin_type: args.isFa ? undefined : args.coinType,
-                execute: args.execute,
+                // 签名与提交统一由适配器按签名模式处理
+                execute: false,
                 is_fa: args.isFa,
             });
 
             // Resume the stream
             const response = await stream.resumeStream(params);
 
-            return formatTransactionResponse(response);
+            return prepareTransactionResult(response, args.execute, params, args);
         } catch (error: any) {
             return formatErrorResponse(error);
         }
@@ -578,6 +878,7 @@ const getStreamInfoTool = {
     name: "get-stream-info",
     description: "Get information about a specific MoveFlow stream",
     inputSchema: getStreamInfoInputSchema,
+    capability: "read",
     handler: async (args: z.infer<typeof getStreamInfoInputSchema>) => {
         try {
             // Get stream instance
@@ -586,10 +887,13 @@ const getStreamInfoTool = {
             // Fetch the stream info
             const streamInfo = await stream.fetchStream(args.streamId);
 
+            // 为发送方和接收方地址附上名称
+            const annotated = await annotateStreamNames(getNameResolver(), streamInfo);
+
             return {
                 content: [{
                     type: "text",
-                    text: JSON.stringify(streamInfo, null, 2)
+                    text: JSON.stringify(annotated, null, 2)
                 }]
             };
         } catch (error: any) {
@@ -598,11 +902,212 @@ const getStreamInfoTool = {
     }
 };
 
+// Tool to compute what a stream has vested and what can be withdrawn
+const getStreamBalanceTool = {
+    name: "get-stream-balance",
+    description: "Compute a MoveFlow stream's vested, withdrawn, withdrawable and locked amounts, its per-interval rate and its next unlock, at the chain's current time",
+    inputSchema: getStreamBalanceInputSchema,
+    capability: "read",
+    handler: async (args: z.infer<typeof getStreamBalanceInputSchema>) => {
+        try {
+            const streamInfo = await getStreamInstance().fetchStream(args.streamId);
+            if (!streamInfo) {
+                return formatErrorResponse({ message: `Stream ${args.streamId} not found` });
+            }
+
+            // 按链上账本时间计算，避免本地时钟偏差
+            const now = await getLedgerTimeSeconds(getAptosClient());
+            const balance = computeStreamBalance(normalizeStream(streamInfo, now), now);
+
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify(balance, null, 2)
+                }]
+            };
+        } catch (error: any) {
+            return formatErrorResponse(error);
+        }
+    }
+};
+
+// Tool to project the unlock schedule of a stream before or after it is created
+const projectStreamScheduleTool = {
+    name: "project-stream-schedule",
+    description: "Project the unlock schedule of an existing MoveFlow stream, or of create-stream arguments, as a JSON table and CSV",
+    inputSchema: projectStreamScheduleInputSchema,
+    capability: "read",
+    handler: async (args: z.infer<typeof projectStreamScheduleInputSchema>) => {
+        try {
+            let terms: StreamTerms;
+            let shiftAfter = Infinity;
+            let pausedSeconds = 0;
+            if (args.streamId) {
+                const streamInfo = await getStreamInstance().fetchStream(args.streamId);
+                if (!streamInfo) {
+                    return formatErrorResponse({ message: `Stream ${args.streamId} not found` });
+                }
+                // 暂停过的流，尚未解锁的部分按已暂停时长顺延
+                const now = await getLedgerTimeSeconds(getAptosClient());
+                const record = normalizeStream(streamInfo, now);
+                terms = termsOf(record);
+                pausedSeconds = computeStreamBalance(record, now).pausedSeconds;
+                shiftAfter = now - pausedSeconds;
+            } else {
+                const { depositAmount, startTime, stopTime, interval } = args;
+                if (depositAmount === undefined || startTime === undefined || stopTime === undefined || interval === undefined) {
+                    return formatErrorResponse({
+                        message: "Pass streamId, or the create-stream arguments depositAmount, startTime, stopTime and interval"
+                    });
+                }
+                const draft = toStreamDraft({
+                    isFa: args.isFa ?? false,
+                    coinType: args.coinType,
+                    assetType: args.assetType,
+                    recipient: args.recipient ?? "",
+                    depositAmount,
+                    cliffAmount: args.cliffAmount ?? 0n,
+                    cliffTime: args.cliffTime ?? 0n,
+                    startTime,
+                    stopTime,
+                    interval
+                });
+                // 只检查影响排期的参数，接收方、代币以及开始时间是否已过不影响计算
+                const issues = checkStreamParameters(draft)
+                    .filter(issue => SCHEDULE_FIELDS.includes(issue.field));
+                if (issues.length > 0) {
+                    return formatErrorResponse({ message: formatValidationIssues(issues) });
+                }
+                terms = {
+                    depositAmount: draft.streams[0].depositAmount,
+                    cliffAmount: draft.streams[0].cliffAmount,
+                    cliffTime: draft.cliffTime,
+                    startTime: draft.startTime,
+                    stopTime: draft.stopTime,
+                    interval: draft.interval
+                };
+            }
+
+            const { entries, truncated } = projectSchedule(terms, args.maxEntries, shiftAfter, pausedSeconds);
+            const schedule = {
+                streamId: args.streamId,
+                depositAmount: terms.depositAmount.toString(),
+                cliffAmount: terms.cliffAmount.toString(),
+                cliffTime: terms.cliffTime,
+                startTime: terms.startTime,
+                stopTime: terms.stopTime,
+                interval: terms.interval,
+                ratePerInterval: ratePerInterval(terms).toString(),
+                pausedSeconds,
+                truncated,
+                entries
+            };
+
+            return {
+                content: [
+                    { type: "text", text: JSON.stringify(schedule, null, 2) },
+                    { type: "text", text: formatScheduleCsv(entries) }
+                ]
+            };
+        } catch (error: any) {
+            return formatErrorResponse(error);
+        }
+    }
+};
+
+// Tool to show what happened to a stream over time
+const getStreamHistoryTool = {
+    name: "get-stream-history",
+    description: "Show the history of a MoveFlow stream (created, withdrawn, paused, resumed, extended, recipient changed, closed) as a timeline with amounts and actors",
+    inputSchema: getStreamHistoryInputSchema,
+    capability: "read",
+    handler: async (args: z.infer<typeof getStreamHistoryInputSchema>) => {
+        try {
+            const history = await fetchStreamHistoryEvents(args.streamId);
+
+            return {
+                content: [
+                    { type: "text", text: formatStreamTimeline(args.streamId, history) },
+                    { type: "text", text: JSON.stringify({ streamId: args.streamId, ...history }, null, 2) }
+                ]
+            };
+        } catch (error: any) {
+            return formatErrorResponse(error);
+        }
+    }
+};
+
+// Tool to list the streams of an account
+const listStreamsTool = {
+    name: "list-streams",
+    description: "List the MoveFlow streams an account sends or receives, with status and coin filters, sorting and cursor pagination",
+    inputSchema: listStreamsInputSchema,
+    capability: "read",
+    handler: async (args: z.infer<typeof listStreamsInputSchema>) => {
+        try {
+            const input = args.address ?? getServerAccountAddress();
+            if (!input) {
+                return formatErrorResponse({ message: "address is required when the server has no account" });
+            }
+            const address = await resolveRecipient(getNameResolver(), input, true);
+
+            const now = await getLedgerTimeSeconds(getAptosClient());
+            const records = (await fetchAccountStreams(address)).map(stream => normalizeStream(stream, now));
+            const page = queryStreams(records, {
+                address,
+                direction: args.direction,
+                statuses: args.status,
+                token: args.coinType,
+                sortBy: args.sortBy,
+                order: args.order,
+                limit: args.limit,
+                cursor: args.cursor
+            });
+
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({ address, asOf: now, ...page }, null, 2)
+                }]
+            };
+        } catch (error: any) {
+            return formatErrorResponse(error);
+        }
+    }
+};
+
+// Tool to summarize the streams of an account per token
+const getAccountSummaryTool = {
+    name: "get-account-summary",
+    description: "Summarize an account's incoming and outgoing MoveFlow streams per token: committed, streamed, withdrawable, outflow per day and month, and the streams ending soonest",
+    inputSchema: getAccountSummaryInputSchema,
+    capability: "read",
+    handler: async (args: z.infer<typeof getAccountSummaryInputSchema>) => {
+        try {
+            const input = args.address ?? getServerAccountAddress();
+            if (!input) {
+                return formatErrorResponse({ message: "address is required when the server has no account" });
+            }
+            const summary = await fetchAccountSummary(input, args.endingLimit);
+
+            return {
+                content: [
+                    { type: "text", text: formatAccountSummary(summary) },
+                    { type: "text", text: JSON.stringify(summary, null, 2) }
+                ]
+            };
+        } catch (error: any) {
+            return formatErrorResponse(error);
+        }
+    }
+};
+
 // Tool to batch create streams
 const batchCreateStreamTool = {
     name: "batch-create-streams",
     description: "Create multiple MoveFlow streams at once",
     inputSchema: batchCreateStreamInputSchema,
+    capability: "prepare",
     handler: async (args: z.infer<typeof batchCreateStreamInputSchema>) => {
         try {
             // Validate arrays have the same length
@@ -621,8 +1126,32 @@ const batchCreateStreamTool = {
                 });
             }
 
+            if (args.cliffAmounts && args.cliffAmounts.length !== recipientCount) {
+                return formatErrorResponse({
+                    message: "cliffAmounts must have the same length as recipients"
+                });
+            }
+
+            const validationError = await preflightStream({
+                isFa: args.isFa,
+                coinType: args.coinType,
+                assetType: args.assetType,
+                startTime: args.startTime,
+                stopTime: args.stopTime,
+                cliffTime: args.cliffTime,
+                interval: args.interval,
+                streams: args.recipients.map((recipient, index) => ({
+                    recipient,
+                    depositAmount: BigInt(args.depositAmounts[index]),
+                    cliffAmount: BigInt(args.cliffAmounts?.[index] ?? 0)
+                }))
+            }, args);
+            if (validationError) {
+                return validationError;
+            }
+
             // Get stream instance
-            const stream = getStreamInstance();
+            const stream = getStreamInstance(args.sender);
 
             // Map enum strings to actual enum values
             const streamTypeMap: Record<string, StreamType> = {
@@ -638,7 +1167,7 @@ const batchCreateStreamTool = {
 
             // Simplified address handling - use string array directly
             // Use string addresses directly
-            const recipientAddresses = args.recipients.map(address => convertRecipientAddress(address));
+            const recipientAddresses = args.recipients.map(address => convertRecipientAddress(address, args.allowShortAddress));
             // Convert cliffAmounts to BigInt[], ensuring it's compatible with AnyNumber[]
             const cliffAmounts = (args.cliffAmounts || args.depositAmounts.map(() => "0"))
                 .map(amount => typeof amount === "string" ? BigInt(amount) : BigInt(amount));
@@ -663,13 +1192,14 @@ const batchCreateStreamTool = {
                 pauseable: operateUserMap[args.pauseable],
                 closeable: operateUserMap[args.closeable],
                 recipient_modifiable: operateUserMap[args.recipientModifiable],
-                execute: args.execute,
+                // 签名与提交统一由适配器按签名模式处理
+                execute: false,
             });
 
             // Create the batch of streams
             const response = await stream.batchCreateSteam(params);
 
-            return formatTransactionResponse(response);
+            return prepareTransactionResult(response, args.execute, params, args);
         } catch (error: any) {
             return formatErrorResponse(error);
         }
@@ -681,6 +1211,7 @@ const batchWithdrawStreamTool = {
     name: "batch-withdraw-streams",
     description: "Withdraw from multiple MoveFlow streams at once",
     inputSchema: batchWithdrawStreamInputSchema,
+    capability: "prepare",
     handler: async (args: z.infer<typeof batchWithdrawStreamInputSchema>) => {
         try {
             // Check if we can execute transactions using the utility function
@@ -692,21 +1223,222 @@ const batchWithdrawStreamTool = {
             }
 
             // Get stream instance
-            const stream = getStreamInstance();
+            const stream = getStreamInstance(args.sender);
 
             // Create batch withdraw params
             const params = new BatchWithdrawParams({
                 stream_ids: args.streamIds,
                 coin_type: args.isFa ? undefined : args.coinType,
                 asset_type: args.isFa ? args.assetType : undefined,
-                execute: args.execute,
+                // 签名与提交统一由适配器按签名模式处理
+                execute: false,
                 is_fa: args.isFa,
             });
 
             // Batch withdraw from the streams
             const response = await stream.batchWithdrawStream(params);
 
-            return formatTransactionResponse(response);
+            return prepareTransactionResult(response, args.execute, params, args);
+        } catch (error: any) {
+            return formatErrorResponse(error);
+        }
+    }
+};
+
+const getTransactionResultInputSchema = z.object({
+    hash: z.string().optional().describe("Hash of any submitted transaction"),
+    transactionId: z.string().optional().describe("ID of a transaction prepared by this server"),
+    waitForConfirmation: z.boolean().default(false).describe("Wait until the transaction is committed instead of returning its current state"),
+});
+
+// Tool to look up the on-chain result of a submitted transaction
+const getTransactionResultTool = {
+    name: "get-transaction-result",
+    description: "Get the committed status, gas used, MoveFlow events and new stream id of a submitted transaction",
+    inputSchema: getTransactionResultInputSchema,
+    capability: "read",
+    handler: async (args: z.infer<typeof getTransactionResultInputSchema>) => {
+        try {
+            let hash = args.hash;
+
+            // 通过交易ID查找由本服务器准备的交易哈希
+            if (args.transactionId) {
+                const record = transactionProxyService.getTransaction(args.transactionId);
+                if (!record) {
+                    throw new Error(`Transaction with ID ${args.transactionId} not found`);
+                }
+                if (!record.hash) {
+                    throw new Error(`Transaction ${args.transactionId} has not been submitted (state: ${record.state})`);
+                }
+                if (hash && hash !== record.hash) {
+                    throw new Error(`Hash ${hash} does not match transaction ${args.transactionId} (${record.hash})`);
+                }
+                hash = record.hash;
+            }
+
+            if (!hash) {
+                throw new Error("Either hash or transactionId is required");
+            }
+
+            const aptosClient = getAptosClient();
+            const onChain = args.waitForConfirmation
+                ? await waitForConfirmation(aptosClient, hash, getConfirmationConfig().timeoutSeconds)
+                : await lookupTransaction(aptosClient, hash);
+
+            // 同步更新交易生命周期
+            if (args.transactionId) {
+                await transactionProxyService.recordChainResult(args.transactionId, onChain);
+            }
+
+            return formatTransactionResponse(onChain);
+        } catch (error: any) {
+            return formatErrorResponse(error);
+        }
+    }
+};
+
+const listMultisigProposalsInputSchema = z.object({
+    multisigAddress: z.string().describe("Address of the on-chain multisig account"),
+});
+
+const voteMultisigProposalInputSchema = z.object({
+    multisigAddress: z.string().describe("Address of the on-chain multisig account"),
+    sequenceNumber: z.union([z.string(), z.number()]).transform(v => String(v)).describe("Sequence number of the proposal"),
+    approve: z.boolean().describe("true to approve the proposal, false to reject it"),
+    owner: z.string().optional().describe("Owner casting the vote (defaults to the server signer)"),
+    execute: z.boolean().default(false).describe("Whether to execute the transaction or just create it"),
+    waitForConfirmation: writeOptionsShape.waitForConfirmation,
+    idempotencyKey: writeOptionsShape.idempotencyKey,
+});
+
+const executeMultisigProposalInputSchema = z.object({
+    multisigAddress: z.string().describe("Address of the on-chain multisig account"),
+    sequenceNumber: z.union([z.string(), z.number()]).transform(v => String(v)).describe("Sequence number of the approved proposal"),
+    owner: z.string().optional().describe("Owner submitting the execution (defaults to the server signer)"),
+    execute: z.boolean().default(false).describe("Whether to execute the transaction or just create it"),
+    waitForConfirmation: writeOptionsShape.waitForConfirmation,
+    idempotencyKey: writeOptionsShape.idempotencyKey,
+});
+
+// 多签操作的签名账户（密钥库账户名称或地址）：未指定时使用服务器签名账户
+function resolveMultisigOwner(owner?: string): string {
+    const resolved = owner ? resolveSender(owner).address.toString() : getServerAccountAddress();
+    if (!resolved) {
+        throw new Error("owner is required when the server has no signer account");
+    }
+    return resolved;
+}
+
+// Tool to list pending multisig proposals
+const listMultisigProposalsTool = {
+    name: "list-multisig-proposals",
+    description: "List the pending proposals of an on-chain multisig account with their votes",
+    inputSchema: listMultisigProposalsInputSchema,
+    capability: "read",
+    handler: async (args: z.infer<typeof listMultisigProposalsInputSchema>) => {
+        try {
+            const result = await listMultisigProposals(getAptosClient(), args.multisigAddress);
+
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify(result, null, 2)
+                }]
+            };
+        } catch (error: any) {
+            return formatErrorResponse(error);
+        }
+    }
+};
+
+// Tool to approve or reject a multisig proposal
+const voteMultisigProposalTool = {
+    name: "vote-multisig-proposal",
+    description: "Approve or reject a pending proposal of an on-chain multisig account",
+    inputSchema: voteMultisigProposalInputSchema,
+    capability: "prepare",
+    handler: async (args: z.infer<typeof voteMultisigProposalInputSchema>) => {
+        try {
+            const executionCheck = canExecuteTransaction(args.execute);
+            if (!executionCheck.canExecute) {
+                return formatErrorResponse({
+                    message: executionCheck.errorMessage || "Cannot execute transactions."
+                });
+            }
+
+            const transaction = await buildMultisigVote(
+                getAptosClient(),
+                args.multisigAddress,
+                args.sequenceNumber,
+                args.approve,
+                resolveMultisigOwner(args.owner)
+            );
+
+            return prepareTransactionResult(transaction, args.execute, undefined, {
+                details: {
+                    preview: {
+                        multisigAddress: args.multisigAddress,
+                        sequenceNumber: args.sequenceNumber,
+                        vote: args.approve ? "approve" : "reject"
+                    }
+                }
+            });
+        } catch (error: any) {
+            return formatErrorResponse(error);
+        }
+    }
+};
+
+// Tool to execute an approved multisig proposal
+const executeMultisigProposalTool = {
+    name: "execute-multisig-proposal",
+    description: "Execute an approved MoveFlow proposal as the on-chain multisig account",
+    inputSchema: executeMultisigProposalInputSchema,
+    capability: "prepare",
+    handler: async (args: z.infer<typeof executeMultisigProposalInputSchema>) => {
+        try {
+            const executionCheck = canExecuteTransaction(args.execute);
+            if (!executionCheck.canExecute) {
+                return formatErrorResponse({
+                    message: executionCheck.errorMessage || "Cannot execute transactions."
+                });
+            }
+
+            const owner = resolveMultisigOwner(args.owner);
+            const { moduleAddress } = getMoveFlowConfig();
+            const { transaction, proposal } = await buildMultisigExecution(
+                getAptosClient(),
+                args.multisigAddress,
+                args.sequenceNumber,
+                owner,
+                moduleAddress
+            );
+
+            // 服务器签名时支出策略适用：模拟执行，从MoveFlow事件还原提案等效的直接调用，按该调用检查存款和受保护的流
+            const txConfig = getTransactionExecutorConfig();
+            let proposedCall;
+            if (policyEngine.isEnabled() && txConfig.signingMode !== 'client' && !txConfig.readOnlyMode) {
+                const simulation = await simulateTransaction(getAptosClient(), transaction, {
+                    signer: getAccountForAddress(owner)
+                });
+                if (!simulation.success) {
+                    throw new Error(`Executing proposal ${proposal.sequenceNumber} fails in simulation: ${simulation.vmStatus}`);
+                }
+                proposedCall = describeProposedCall(proposal, simulation.events, moduleAddress as string);
+            }
+
+            const result = await prepareTransactionResult(transaction, args.execute, undefined, {
+                details: {
+                    preview: {
+                        multisigAddress: args.multisigAddress,
+                        sequenceNumber: proposal.sequenceNumber,
+                        function: proposal.function,
+                        approvals: proposal.approvals,
+                        proposedCall
+                    }
+                }
+            });
+            return proposedCall ? { ...result, proposedCall } : result;
         } catch (error: any) {
             return formatErrorResponse(error);
         }
@@ -714,7 +1446,17 @@ const batchWithdrawStreamTool = {
 };
 
 // Import transaction tools - use correct import syntax
-import { submitSignedTransactionTool, checkPendingTransactionTool } from "./tools/transactionTools.js";
+import {
+    submitSignedTransactionTool,
+    checkPendingTransactionTool,
+    listPendingTransactionsTool,
+    cancelPendingTransactionTool,
+    simulateTransactionTool,
+    getSubmissionQueueStatusTool
+} from "./tools/transactionTools.js";
+import { listAccountsTool } from "./tools/accountTools.js";
+import { confirmTransactionTool } from "./tools/approvalTools.js";
+import { getAuditLogTool } from "./tools/auditTools.js";
 
 // 将所有工具放入一个数组
 const allTools = [
@@ -725,10 +1467,26 @@ const allTools = [
     pauseStreamTool,
     resumeStreamTool,
     getStreamInfoTool,
+    getStreamBalanceTool,
+    projectStreamScheduleTool,
+    getStreamHistoryTool,
+    listStreamsTool,
+    getAccountSummaryTool,
     batchCreateStreamTool,
     batchWithdrawStreamTool,
     submitSignedTransactionTool,
-    checkPendingTransactionTool
+    checkPendingTransactionTool,
+    listPendingTransactionsTool,
+    cancelPendingTransactionTool,
+    simulateTransactionTool,
+    getTransactionResultTool,
+    listMultisigProposalsTool,
+    voteMultisigProposalTool,
+    executeMultisigProposalTool,
+    listAccountsTool,
+    confirmTransactionTool,
+    getAuditLogTool,
+    getSubmissionQueueStatusTool
 ];
 
 // 统一导出工具
@@ -740,10 +1498,26 @@ export {
     pauseStreamTool,
     resumeStreamTool,
     getStreamInfoTool,
+    getStreamBalanceTool,
+    projectStreamScheduleTool,
+    getStreamHistoryTool,
+    listStreamsTool,
+    getAccountSummaryTool,
     batchCreateStreamTool,
     batchWithdrawStreamTool,
     submitSignedTransactionTool,
     checkPendingTransactionTool,
+    listPendingTransactionsTool,
+    cancelPendingTransactionTool,
+    simulateTransactionTool,
+    getTransactionResultTool,
+    listMultisigProposalsTool,
+    voteMultisigProposalTool,
+    executeMultisigProposalTool,
+    listAccountsTool,
+    confirmTransactionTool,
+    getAuditLogTool,
+    getSubmissionQueueStatusTool,
     // 导出工具数组
     allTools as tools
 };
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { getAptosClient, listServerAccounts } from "../aptos.js";
+
+interface ToolResponse {
+    content: Array<{
+        type: string;
+        text: string;
+    }>;
+    isError?: boolean;
+}
+
+// 列出服务器可签名的账户（密钥库账户、私钥账户、远程签名账户）及其余额
+export const listAccountsTool = {
+    name: "list-accounts",
+    description: "列出服务器可用于签名的账户，包括密钥库中的命名账户，显示地址和APT余额。写入工具的 sender 参数可使用这些账户名称",
+    inputSchema: z.object({
+        includeBalances: z.boolean().default(true).describe("是否查询每个账户的APT余额")
+    }),
+    capability: "read",
+    handler: async (args: { includeBalances: boolean }): Promise<ToolResponse> => {
+        try {
+            const aptosClient = getAptosClient();
+            const accounts = await Promise.all(listServerAccounts().map(async account => {
+                if (!args.includeBalances) {
+                    return account;
+                }
+
+                try {
+                    const octas = await aptosClient.getAccountAPTAmount({ accountAddress: account.address });
+                    return { ...account, balance: `${octas / 100000000} APT`, balanceOctas: octas.toString() };
+                } catch (error: any) {
+                    // 账户尚未在链上创建时没有余额
+                    return { ...account, balance: null, balanceError: error.message || "未知错误" };
+                }
+            }));
+
+            return {
+                content: [{
+                    type: "text",
+                    text: accounts.length > 0
+                        ? JSON.stringify({ accounts }, null, 2)
+                        : "服务器未配置可签名的账户（客户端签名模式下，可直接将地址作为 sender 传入写入工具）"
+                }]
+            };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: "text",
+                    text: `获取账户列表失败: ${error.message || "未知错误"}`
+                }],
+                isError: true
+            };
+        }
+    }
+};
+
+// 导出所有账户相关工具的数组
+export const accountTools = [
+    listAccountsTool
+];
@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { confirmTransactionWithCode } from "../adapters.js";
+
+// 使用确认码批准并提交等待人工确认的交易（客户端不支持elicitation时使用）
+export const confirmTransactionTool = {
+    name: "confirm-transaction",
+    description: "提交用户提供的一次性确认码，批准并签名提交等待确认的交易。确认码写入服务器日志，必须由用户提供，不能自行生成",
+    inputSchema: z.object({
+        transactionId: z.string().describe("等待确认的交易ID"),
+        code: z.string().describe("用户提供的6位确认码")
+    }),
+    capability: "sign",
+    handler: async (args: { transactionId: string, code: string }) => {
+        return confirmTransactionWithCode(args.transactionId, args.code);
+    }
+};
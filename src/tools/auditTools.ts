@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { getAuditLog } from "../aptos.js";
+import { verifyAuditLog } from "../services/AuditLog.js";
+
+interface ToolResponse {
+    content: Array<{
+        type: string;
+        text: string;
+    }>;
+    isError?: boolean;
+}
+
+function parseTime(value: string | undefined, field: string): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    // 纯数字按Unix秒解析，其余按ISO 8601解析
+    const time = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value);
+    if (Number.isNaN(time)) {
+        throw new Error(`${field} 不是有效的时间: ${value}`);
+    }
+    return time;
+}
+
+// 查询写入工具调用的审计日志，可按流ID、工具和时间范围过滤
+export const getAuditLogTool = {
+    name: "get-audit-log",
+    description: "查询审计日志中记录的写入工具调用（参数、交易ID/哈希、签名模式和结果），可按流ID、工具名称和时间范围过滤，并可校验哈希链是否被篡改",
+    inputSchema: z.object({
+        streamId: z.string().optional().describe("只返回涉及该流ID的记录"),
+        toolName: z.string().optional().describe("只返回该工具的记录，如 create-stream"),
+        since: z.string().optional().describe("起始时间（ISO 8601 或 Unix秒）"),
+        until: z.string().optional().describe("结束时间（ISO 8601 或 Unix秒）"),
+        limit: z.number().default(50).describe("最多返回的记录数，按时间倒序"),
+        verify: z.boolean().default(false).describe("是否同时校验整个日志的哈希链")
+    }),
+    capability: "read",
+    handler: async (args: {
+        streamId?: string,
+        toolName?: string,
+        since?: string,
+        until?: string,
+        limit: number,
+        verify: boolean
+    }): Promise<ToolResponse> => {
+        try {
+            const auditLog = getAuditLog();
+            const entries = await auditLog.query({
+                streamId: args.streamId,
+                toolName: args.toolName,
+                since: parseTime(args.since, 'since'),
+                until: parseTime(args.until, 'until'),
+                limit: args.limit
+            });
+            const verification = args.verify ? await verifyAuditLog(auditLog.getFilePath()) : undefined;
+
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({ count: entries.length, entries, verification }, null, 2)
+                }],
+                isError: verification ? !verification.valid : undefined
+            };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: "text",
+                    text: `查询审计日志失败: ${error.message || "未知错误"}`
+                }],
+                isError: true
+            };
+        }
+    }
+};
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { getSigningService } from "../aptos.js";
 import { canExecuteTransaction } from "../utils.js";
+import { normalizeClientSignedData } from "../services/SignatureAuthenticator.js";
 
 // 添加提交已签名交易的工具定义
 // Define interfaces for better type safety
@@ -44,7 +45,7 @@ export const submitSignedTransactionTool = {
             // 此处提交客户端签名后的交易
             const result = await signingService.submitSignedTransaction(
                 args.transactionId,
-                args.signedTransaction
+                normalizeClientSignedData(args.signedTransaction)
             );
 
             return {
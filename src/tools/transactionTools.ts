@@ -1,13 +1,30 @@
 import { z } from "zod";
-import { getSigningService } from "../aptos.js";
+import { getAccountForAddress, getAptosClient, getSequenceNumberManager, getSigningService, getSponsorAccount } from "../aptos.js";
+import { transactionProxyService } from "../services/TransactionProxyService.js";
+import { PendingTransactionRecord } from "../services/PendingTransactionStore.js";
+import { TRANSACTION_STATES, TransactionState, isOutstandingState } from "../services/TransactionLifecycle.js";
+import { exportTransactionForSigning } from "../services/TransactionExport.js";
+import { simulateTransaction as simulatePreparedTransaction } from "../services/TransactionSimulation.js";
+import {
+    SIGNATURE_SCHEMES,
+    SINGLE_KEY_TYPES,
+    SignatureScheme,
+    SingleKeyType,
+    normalizeClientSignedData
+} from "../services/SignatureAuthenticator.js";
 
 // 定义已签名交易提交工具
 // Define interfaces for the types
 interface SignedTransactionData {
-    signature: string;
-    public_key: string;
+    scheme: SignatureScheme;
     sender: string;
     transaction_hash?: string;
+    signature?: string;
+    public_key?: string;
+    key_type?: SingleKeyType;
+    public_keys?: Array<string | { key_type?: SingleKeyType; public_key: string }>;
+    threshold?: number;
+    signatures?: Array<{ index: number; signature: string }>;
 }
 
 interface SubmitSignedTransactionInput {
@@ -30,34 +47,46 @@ interface ToolResponse {
 
 export const submitSignedTransactionTool = {
     name: "submit-signed-transaction",
-    description: "提交客户端已签名的交易",
+    description: "提交客户端已签名的交易。支持 ed25519、multi_ed25519、single_key（ed25519/secp256k1）和 multi_key 签名方案，签名会在提交前于本地验证",
     inputSchema: z.object({
         transactionId: z.string().describe("交易ID"),
         signedTransaction: z.object({
-            signature: z.string().describe("十六进制格式的交易签名"),
-            public_key: z.string().describe("签名者的公钥"),
+            scheme: z.enum(SIGNATURE_SCHEMES).default("ed25519").describe("签名方案"),
             sender: z.string().describe("发送者地址"),
-            transaction_hash: z.string().optional().describe("可选的交易哈希")
+            transaction_hash: z.string().optional().describe("可选的交易哈希，提供时会与服务器计算的哈希比对"),
+            signature: z.string().optional().describe("十六进制格式的签名（ed25519、single_key）"),
+            public_key: z.string().optional().describe("签名者的公钥（ed25519、single_key）"),
+            key_type: z.enum(SINGLE_KEY_TYPES).optional().describe("single_key 的密钥类型，默认 ed25519"),
+            public_keys: z.array(z.union([
+                z.string(),
+                z.object({
+                    key_type: z.enum(SINGLE_KEY_TYPES).optional(),
+                    public_key: z.string()
+                })
+            ])).optional().describe("所有公钥（multi_ed25519、multi_key），multi_key 可指定每个公钥的类型"),
+            threshold: z.number().optional().describe("所需签名数量（multi_ed25519、multi_key）"),
+            signatures: z.array(z.object({
+                index: z.number().describe("签名公钥在 public_keys 中的位置"),
+                signature: z.string().describe("十六进制格式的签名")
+            })).optional().describe("各签名者的签名（multi_ed25519、multi_key）")
         }).describe("客户端签名后的交易数据")
     }),
+    capability: "sign",
     handler: async (args: SubmitSignedTransactionInput): Promise<ToolResponse> => {
         try {
             // 获取签名服务
             const signingService = getSigningService();
 
             // 增加调试日志
-            console.log(`尝试提交交易ID: ${args.transactionId}`);
-            console.log(`签名数据:`, args.signedTransaction);
+            console.error(`尝试提交交易ID: ${args.transactionId}`);
 
-            // 验证输入数据
-            if (!args.signedTransaction.signature || !args.signedTransaction.public_key || !args.signedTransaction.sender) {
-                throw new Error("签名数据缺失或格式不正确");
-            }
+            // 按签名方案校验并整理输入数据
+            const signedData = normalizeClientSignedData(args.signedTransaction);
 
             // 提交已签名的交易
             const result: TransactionResult = await signingService.submitSignedTransaction(
                 args.transactionId,
-                args.signedTransaction
+                signedData
             );
 
             // 返回结果
@@ -80,47 +109,72 @@ export const submitSignedTransactionTool = {
     }
 };
 
+// 将交易记录整理为可读的摘要（不包含原始交易对象）
+function summarizeTransactionRecord(record: PendingTransactionRecord) {
+    return {
+        transactionId: record.transactionId,
+        toolName: record.toolName,
+        state: record.state,
+        createdAt: new Date(record.createdAt).toISOString(),
+        expiresAt: new Date(record.expiresAt).toISOString(),
+        hash: record.hash,
+        vmStatus: record.vmStatus,
+        transitions: record.transitions.map(transition => ({
+            from: transition.from,
+            to: transition.to,
+            at: new Date(transition.at).toISOString(),
+            note: transition.note
+        }))
+    };
+}
+
 // 定义查询待签名交易状态的工具
 // Define interfaces for check pending transaction
 interface CheckPendingTransactionInput {
     transactionId: string;
 }
 
-interface TransactionStatus {
-    found: boolean;
-    age?: number;
-    transaction?: any;
-    [key: string]: any;
-}
-
 export const checkPendingTransactionTool = {
     name: "check-pending-transaction",
-    description: "检查需要客户端签名的待处理交易",
+    description: "检查交易的生命周期状态（已准备、等待签名、已提交、已确认、失败、过期或已取消）",
     inputSchema: z.object({
         transactionId: z.string().describe("待检查的交易ID")
     }),
+    capability: "read",
     handler: async (args: CheckPendingTransactionInput): Promise<ToolResponse> => {
         try {
-            // 获取签名服务
-            const signingService = getSigningService();
+            // 已提交的交易先从链上同步结果
+            const record = await transactionProxyService.refreshFromChain(args.transactionId, getAptosClient());
 
-            // 检查待处理交易状态
-            const status: TransactionStatus = signingService.getPendingTransaction(args.transactionId);
-
-            if (!status.found) {
+            if (!record) {
                 return {
                     content: [{
                         type: "text",
-                        text: `未找到ID为 ${args.transactionId} 的交易或交易已过期`
+                        text: `未找到ID为 ${args.transactionId} 的交易`
                     }],
                     isError: true
                 };
             }
 
+            if (isOutstandingState(record.state)) {
+                // 重新导出待签名数据，便于重启后的客户端继续签名
+                const details = {
+                    ...summarizeTransactionRecord(record),
+                    signing: exportTransactionForSigning(record.transaction)
+                };
+                return {
+                    content: [{
+                        type: "text",
+                        text: `交易 ${args.transactionId} 等待签名中。已等待: ${Math.round((Date.now() - record.createdAt) / 1000)} 秒\n\n` +
+                            JSON.stringify(details, null, 2)
+                    }]
+                };
+            }
+
             return {
                 content: [{
                     type: "text",
-                    text: `交易 ${args.transactionId} 等待签名中。已等待: ${Math.round((status.age || 0) / 1000)} 秒`
+                    text: `交易 ${args.transactionId} 当前状态: ${record.state}\n\n${JSON.stringify(summarizeTransactionRecord(record), null, 2)}`
                 }]
             };
         } catch (error: any) {
@@ -135,12 +189,200 @@ export const checkPendingTransactionTool = {
     }
 };
 
+// 定义列出待处理交易的工具
+interface ListPendingTransactionsInput {
+    state?: TransactionState;
+    includeFinished: boolean;
+}
+
+export const listPendingTransactionsTool = {
+    name: "list-pending-transactions",
+    description: "列出服务器准备的交易及其生命周期状态，默认只显示尚未提交的交易",
+    inputSchema: z.object({
+        state: z.enum(TRANSACTION_STATES).optional().describe("只显示指定状态的交易"),
+        includeFinished: z.boolean().default(false).describe("是否包含已提交、已确认、失败、过期和已取消的交易")
+    }),
+    capability: "read",
+    handler: async (args: ListPendingTransactionsInput): Promise<ToolResponse> => {
+        try {
+            const states: TransactionState[] | undefined = args.state
+                ? [args.state]
+                : (args.includeFinished ? undefined : ['prepared', 'awaiting_signature']);
+            const records = transactionProxyService.listTransactions({ states });
+
+            if (records.length === 0) {
+                return {
+                    content: [{
+                        type: "text",
+                        text: "没有符合条件的交易"
+                    }]
+                };
+            }
+
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify(records.map(summarizeTransactionRecord), null, 2)
+                }]
+            };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: "text",
+                    text: `列出交易出错: ${error.message || "未知错误"}`
+                }],
+                isError: true
+            };
+        }
+    }
+};
+
+// 定义取消待处理交易的工具
+interface CancelPendingTransactionInput {
+    transactionId: string;
+    reason?: string;
+}
+
+export const cancelPendingTransactionTool = {
+    name: "cancel-pending-transaction",
+    description: "取消尚未提交的交易，取消后该交易ID不能再提交",
+    inputSchema: z.object({
+        transactionId: z.string().describe("要取消的交易ID"),
+        reason: z.string().optional().describe("取消原因")
+    }),
+    capability: "prepare",
+    handler: async (args: CancelPendingTransactionInput): Promise<ToolResponse> => {
+        try {
+            const record = await transactionProxyService.cancelTransaction(args.transactionId, args.reason);
+
+            return {
+                content: [{
+                    type: "text",
+                    text: `交易 ${record.transactionId} 已取消`
+                }]
+            };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: "text",
+                    text: `取消交易失败: ${error.message || "未知错误"}`
+                }],
+                isError: true
+            };
+        }
+    }
+};
+
+// 定义模拟待处理交易的工具
+interface SimulateTransactionInput {
+    transactionId: string;
+    publicKey?: string;
+}
+
+export const simulateTransactionTool = {
+    name: "simulate-transaction",
+    description: "模拟执行一笔尚未提交的交易，返回gas估算、最大gas费用、VM状态和余额变化",
+    inputSchema: z.object({
+        transactionId: z.string().describe("待模拟的交易ID"),
+        publicKey: z.string().optional().describe("发送者的Ed25519公钥；未提供时使用服务器签名账户或发送者最近一笔交易中的公钥")
+    }),
+    capability: "read",
+    handler: async (args: SimulateTransactionInput): Promise<ToolResponse> => {
+        try {
+            const record = transactionProxyService.getTransaction(args.transactionId);
+            if (!record) {
+                return {
+                    content: [{
+                        type: "text",
+                        text: `未找到ID为 ${args.transactionId} 的交易`
+                    }],
+                    isError: true
+                };
+            }
+
+            if (!isOutstandingState(record.state)) {
+                return {
+                    content: [{
+                        type: "text",
+                        text: `交易 ${args.transactionId} 当前状态为 ${record.state}，无法模拟`
+                    }],
+                    isError: true
+                };
+            }
+
+            const simulation = await simulatePreparedTransaction(getAptosClient(), record.transaction, {
+                publicKey: args.publicKey,
+                signer: getAccountForAddress(record.transaction.rawTransaction.sender.toString()),
+                feePayer: getSponsorAccount()
+            });
+
+            return {
+                content: [{
+                    type: "text",
+                    text: JSON.stringify({
+                        transactionId: record.transactionId,
+                        message: simulation.success ? "✅ 模拟执行成功" : `❌ 模拟执行失败: ${simulation.vmStatus}`,
+                        ...simulation
+                    }, null, 2)
+                }]
+            };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: "text",
+                    text: `模拟交易失败: ${error.message || "未知错误"}`
+                }],
+                isError: true
+            };
+        }
+    }
+};
+
+// 定义查询提交队列状态的工具
+export const getSubmissionQueueStatusTool = {
+    name: "get-submission-queue-status",
+    description: "查询服务器签名交易的按账户提交队列：排队深度、下一个本地分配的序列号、已提交数量和最近的错误",
+    inputSchema: z.object({}),
+    capability: "read",
+    handler: async (): Promise<ToolResponse> => {
+        try {
+            const queues = getSequenceNumberManager().getStatus();
+
+            return {
+                content: [{
+                    type: "text",
+                    text: queues.length > 0
+                        ? JSON.stringify({ queues }, null, 2)
+                        : "尚无服务器签名的交易提交"
+                }]
+            };
+        } catch (error: any) {
+            return {
+                content: [{
+                    type: "text",
+                    text: `查询提交队列出错: ${error.message || "未知错误"}`
+                }],
+                isError: true
+            };
+        }
+    }
+};
+
 // 单独导出每个工具，这样可以分别导入
 export const submitSignedTransaction = submitSignedTransactionTool;
 export const checkPendingTransaction = checkPendingTransactionTool;
+export const listPendingTransactions = listPendingTransactionsTool;
+export const cancelPendingTransaction = cancelPendingTransactionTool;
+export const simulateTransaction = simulateTransactionTool;
+export const getSubmissionQueueStatus = getSubmissionQueueStatusTool;
 
 // 导出所有交易相关工具的数组
 export const transactionTools = [
     submitSignedTransactionTool,
-    checkPendingTransactionTool
+    checkPendingTransactionTool,
+    listPendingTransactionsTool,
+    cancelPendingTransactionTool,
+    simulateTransactionTool,
+    getSubmissionQueueStatusTool
 ];
+
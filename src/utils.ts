@@ -1,5 +1,30 @@
+import { SimpleTransaction } from "@aptos-labs/ts-sdk";
 import { getTransactionExecutorConfig } from "./config.js";
 
+/**
+ * 工具处理函数准备好的未签名交易
+ * 由适配器根据签名模式统一登记、预览、交给客户端签名或直接签名提交
+ */
+export interface PreparedTransaction {
+    transaction: SimpleTransaction;
+    // 用户是否请求执行交易
+    execute: boolean;
+    // 交易预览（已格式化的工具响应）
+    preview: any;
+    // 客户端签名时是否由代付账户支付gas；未代付时给出原因
+    sponsorship?: { sponsored: boolean; reason?: string };
+    // 执行多签提案时，提案等效的直接调用，由支出策略按该调用检查
+    proposedCall?: { toolName: string; args: Record<string, any> };
+}
+
+/**
+ * 判断工具返回值是否为待处理的未签名交易
+ * @param result 工具处理函数的返回值
+ */
+export function isPreparedTransaction(result: any): result is PreparedTransaction {
+    return !!result && typeof result === 'object' && !!result.transaction?.rawTransaction;
+}
+
 /**
  * 检查是否可以执行交易
  * @param executeFlag 用户请求的执行标志
@@ -98,3 +123,23 @@ export function deserialize(obj: any): any {
     // 其他基本类型直接返回
     return obj;
 }
+
+/**
+ * 按键名排序序列化对象，使内容相同的对象总是得到相同的字符串（用于计算哈希）
+ * 值为undefined的属性会被忽略，与JSON.stringify一致
+ *
+ * @param {unknown} value - 要序列化的值（不能包含BigInt，需先调用serialize）
+ * @returns {string} - 规范化的JSON字符串
+ */
+export function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalJson).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value as object).sort()
+            .filter(key => (value as any)[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${canonicalJson((value as any)[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
@@ -0,0 +1,105 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { AuditLog, verifyAuditLog } from '../build/services/AuditLog.js';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-log-'));
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+let files = 0;
+
+async function writeLog(count) {
+    files += 1;
+    const log = new AuditLog(path.join(dir, `audit-${files}.jsonl`));
+    for (let index = 0; index < count; index++) {
+        await log.append({
+            toolName: index % 2 === 0 ? 'create-stream' : 'close-stream',
+            args: { amount: String(100 * (index + 1)) },
+            streamIds: [`0x${index + 1}`],
+            signingMode: 'direct',
+            outcome: 'committed'
+        });
+    }
+    return log;
+}
+
+const readLines = log => fs.readFileSync(log.getFilePath(), 'utf8').trim().split('\n');
+const writeLines = (log, lines) => fs.writeFileSync(log.getFilePath(), `${lines.join('\n')}\n`);
+
+test('verifies an untouched chain and reports its head hash', async () => {
+    const log = await writeLog(3);
+
+    const result = await verifyAuditLog(log.getFilePath());
+
+    assert.equal(result.valid, true);
+    assert.equal(result.entries, 3);
+    assert.equal(result.headHash, JSON.parse(readLines(log)[2]).entryHash);
+});
+
+test('detects an edited entry', async () => {
+    const log = await writeLog(3);
+    const lines = readLines(log);
+    const tampered = JSON.parse(lines[1]);
+    tampered.args.amount = '1';
+    lines[1] = JSON.stringify(tampered);
+    writeLines(log, lines);
+
+    const result = await verifyAuditLog(log.getFilePath());
+
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.brokenAt, { line: 2, reason: 'entry content does not match its hash' });
+});
+
+test('detects an entry rehashed after editing', async () => {
+    const log = await writeLog(3);
+    const lines = readLines(log);
+    const forged = JSON.parse(lines[0]);
+    forged.outcome = 'failed';
+    forged.entryHash = 'f'.repeat(64);
+    lines[0] = JSON.stringify(forged);
+    writeLines(log, lines);
+
+    const result = await verifyAuditLog(log.getFilePath());
+
+    assert.equal(result.valid, false);
+    assert.equal(result.brokenAt.line, 1);
+});
+
+test('detects removed and reordered entries', async () => {
+    const log = await writeLog(3);
+    const lines = readLines(log);
+
+    writeLines(log, [lines[0], lines[2]]);
+    assert.deepEqual((await verifyAuditLog(log.getFilePath())).brokenAt, { line: 2, reason: 'expected seq 1, found 2' });
+
+    writeLines(log, [lines[1], lines[0], lines[2]]);
+    assert.equal((await verifyAuditLog(log.getFilePath())).brokenAt.line, 1);
+});
+
+test('detects a line that is not JSON', async () => {
+    const log = await writeLog(2);
+    writeLines(log, [readLines(log)[0], '{"seq": 1,']);
+
+    assert.deepEqual((await verifyAuditLog(log.getFilePath())).brokenAt, { line: 2, reason: 'not valid JSON' });
+});
+
+test('continues the chain after reloading the file', async () => {
+    const log = await writeLog(2);
+    const reopened = new AuditLog(log.getFilePath());
+
+    assert.equal(await reopened.load(), 2);
+    const entry = await reopened.append({
+        toolName: 'pause-stream',
+        args: {},
+        streamIds: ['0x1'],
+        signingMode: 'direct',
+        outcome: 'committed'
+    });
+
+    assert.equal(entry.seq, 2);
+    assert.equal((await verifyAuditLog(log.getFilePath())).valid, true);
+    assert.deepEqual((await reopened.query({ streamId: '0x1' })).map(found => found.seq), [2, 0]);
+});
@@ -0,0 +1,161 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { FullnodePool, FullnodeUnavailableError } from '../build/services/FullnodeFailover.js';
+import { startStandInFullnode, refusedUrl } from './standInFullnode.mjs';
+
+const nodes = [];
+
+async function standIn(respond) {
+    const node = await startStandInFullnode(respond);
+    nodes.push(node);
+    return node;
+}
+
+afterEach(async () => {
+    await Promise.all(nodes.splice(0).map(node => node.close()));
+});
+
+function pool(urls, options = {}) {
+    return new FullnodePool({
+        urls,
+        timeoutMs: 200,
+        maxRetries: 2,
+        baseDelayMs: 10,
+        failureThreshold: 5,
+        cooldownMs: 200,
+        ...options
+    });
+}
+
+const read = { method: 'GET', path: '/v1/accounts/0x1', headers: {} };
+const submit = { method: 'POST', path: '/v1/transactions', headers: {}, body: Buffer.from('{}') };
+
+test('retries a read after a 5xx response', async () => {
+    const node = await standIn((_, count) => ({ status: count === 1 ? 503 : 200 }));
+
+    const response = await pool([node.url]).send(read);
+
+    assert.equal(response.status, 200);
+    assert.equal(node.requests.length, 2);
+});
+
+test('waits for Retry-After before retrying a 429 response', async () => {
+    const node = await standIn((_, count) => count === 1 ? { status: 429, headers: { 'retry-after': '1' } } : {});
+
+    const started = Date.now();
+    const response = await pool([node.url]).send(read);
+
+    assert.equal(response.status, 200);
+    assert.ok(Date.now() - started >= 1000);
+});
+
+test('returns the last 5xx response once the retries run out', async () => {
+    const node = await standIn(() => ({ status: 500, body: '{"message":"down"}' }));
+
+    const response = await pool([node.url]).send(read);
+
+    assert.equal(response.status, 500);
+    assert.equal(response.body.toString(), '{"message":"down"}');
+    assert.equal(node.requests.length, 3);
+});
+
+test('moves a timed-out read to the next fullnode', async () => {
+    const slow = await standIn(() => ({ delayMs: 1000 }));
+    const healthy = await standIn();
+    const fullnodes = pool([slow.url, healthy.url]);
+
+    const response = await fullnodes.send(read);
+
+    assert.equal(response.status, 200);
+    assert.equal(healthy.requests.length, 1);
+    assert.equal(fullnodes.getStatus()[0].lastError, 'timeout');
+});
+
+test('moves a read away from a refused connection', async () => {
+    const healthy = await standIn();
+
+    const response = await pool([await refusedUrl(), healthy.url]).send(read);
+
+    assert.equal(response.status, 200);
+    assert.equal(healthy.requests.length, 1);
+});
+
+test('does not resend a submission that got a 5xx response', async () => {
+    const failing = await standIn(() => ({ status: 503 }));
+    const healthy = await standIn();
+
+    const response = await pool([failing.url, healthy.url]).send(submit);
+
+    assert.equal(response.status, 503);
+    assert.equal(failing.requests.length, 1);
+    assert.equal(healthy.requests.length, 0);
+});
+
+test('does not resend a submission that timed out', async () => {
+    const slow = await standIn(() => ({ delayMs: 1000 }));
+    const healthy = await standIn();
+
+    await assert.rejects(pool([slow.url, healthy.url]).send(submit), FullnodeUnavailableError);
+    assert.equal(healthy.requests.length, 0);
+});
+
+test('moves a submission to the next fullnode when the connection is refused', async () => {
+    const healthy = await standIn();
+
+    const response = await pool([await refusedUrl(), healthy.url]).send(submit);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(healthy.requests, [{ method: 'POST', path: '/v1/transactions' }]);
+});
+
+test('throws when no fullnode answers', async () => {
+    await assert.rejects(pool([await refusedUrl()], { maxRetries: 1 }).send(read), FullnodeUnavailableError);
+});
+
+test('opens the circuit after repeated failures and closes it after a successful trial', async () => {
+    let healthy = false;
+    const node = await standIn(() => ({ status: healthy ? 200 : 503 }));
+    const fullnodes = pool([node.url], { maxRetries: 0, failureThreshold: 2 });
+    const circuit = () => fullnodes.getStatus()[0].circuit;
+
+    await fullnodes.send(read);
+    assert.equal(circuit(), 'closed');
+    await fullnodes.send(read);
+    assert.equal(circuit(), 'open');
+
+    // An open circuit takes the node out of rotation
+    await assert.rejects(fullnodes.send(read), /every fullnode circuit is open/);
+    assert.equal(node.requests.length, 2);
+
+    // A failed trial after the cooldown opens it again
+    await new Promise(resolve => setTimeout(resolve, 250));
+    assert.equal((await fullnodes.send(read)).status, 503);
+    assert.equal(circuit(), 'open');
+    assert.equal(node.requests.length, 3);
+
+    // A successful trial closes it
+    healthy = true;
+    await new Promise(resolve => setTimeout(resolve, 250));
+    assert.equal((await fullnodes.send(read)).status, 200);
+    assert.equal(circuit(), 'closed');
+    assert.equal(fullnodes.getStatus()[0].consecutiveFailures, 0);
+});
+
+test('sends a trial request to a cooled-down fullnode before the others', async () => {
+    let recovered = false;
+    const flaky = await standIn(() => ({ status: recovered ? 200 : 503 }));
+    const healthy = await standIn();
+    const fullnodes = pool([flaky.url, healthy.url], { maxRetries: 1, failureThreshold: 1 });
+
+    // The first attempt opens the flaky node's circuit and the retry goes to the healthy one
+    assert.equal((await fullnodes.send(read)).status, 200);
+    assert.deepEqual(fullnodes.getStatus().map(endpoint => endpoint.circuit), ['open', 'closed']);
+
+    recovered = true;
+    await new Promise(resolve => setTimeout(resolve, 250));
+    await fullnodes.send(read);
+
+    assert.equal(flaky.requests.length, 2);
+    assert.equal(healthy.requests.length, 1);
+    assert.equal(fullnodes.getStatus()[0].circuit, 'closed');
+});
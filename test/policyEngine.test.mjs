@@ -0,0 +1,111 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { PolicyEngine, PolicyViolationError } from '../build/services/PolicyEngine.js';
+
+const APT = '0x1::aptos_coin::AptosCoin';
+const RECIPIENT = '0xa11ce';
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-engine-'));
+
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+let files = 0;
+
+async function engineWith(policy) {
+    files += 1;
+    const policyPath = path.join(dir, `policy-${files}.json`);
+    fs.writeFileSync(policyPath, JSON.stringify(policy));
+    const engine = new PolicyEngine();
+    await engine.load(policyPath, path.join(dir, `ledger-${files}.json`));
+    return engine;
+}
+
+function createStream(amount, options = {}) {
+    return {
+        toolName: 'create-stream',
+        coin: APT,
+        deposits: [{ recipient: RECIPIENT, amount }],
+        streamIds: [],
+        ...options
+    };
+}
+
+const rules = violations => violations.map(violation => violation.rule);
+
+test('allows everything without a policy', () => {
+    assert.deepEqual(new PolicyEngine().evaluate(createStream(10n ** 30n)), []);
+});
+
+test('rejects deposits above the per-tool and per-coin maximums', async () => {
+    const engine = await engineWith({ maxDeposit: { perTool: { 'create-stream': '100' }, perCoin: { [APT]: '50' } } });
+
+    assert.deepEqual(rules(engine.evaluate(createStream(50n))), []);
+    assert.deepEqual(rules(engine.evaluate(createStream(60n))), ['max_deposit_per_coin']);
+    assert.deepEqual(rules(engine.evaluate(createStream(101n))), ['max_deposit_per_tool', 'max_deposit_per_coin']);
+});
+
+test('applies per-coin limits to non-canonical spellings of the coin type', async () => {
+    const engine = await engineWith({ maxDeposit: { perCoin: { '0x01::aptos_coin::AptosCoin': '50' } } });
+    const longForm = `${'0x' + '0'.repeat(63)}1::aptos_coin::AptosCoin`;
+
+    for (const coin of [APT, longForm, ' 0x0001 :: aptos_coin :: AptosCoin ']) {
+        assert.deepEqual(rules(engine.evaluate(createStream(60n, { coin }))), ['max_deposit_per_coin'], coin);
+    }
+});
+
+test('counts authorized spend against the daily and weekly caps', async () => {
+    const engine = await engineWith({ spendCaps: { daily: { [APT]: '100' }, weekly: { [APT]: '150' } } });
+
+    await engine.authorize('tx_1', createStream(80n));
+    assert.deepEqual(rules(engine.evaluate(createStream(20n))), []);
+    assert.deepEqual(rules(engine.evaluate(createStream(21n))), ['daily_spend_cap']);
+
+    // Spend recorded under another spelling of the coin counts towards the same cap
+    await engine.authorize('tx_2', createStream(20n, { coin: '0x0001::aptos_coin::AptosCoin' }));
+    const violation = engine.evaluate(createStream(1n)).find(entry => entry.rule === 'daily_spend_cap');
+    assert.equal(violation.actual, '101');
+
+    await assert.rejects(engine.authorize('tx_3', createStream(60n)), PolicyViolationError);
+
+    // Released spend no longer counts
+    await engine.release('tx_1');
+    assert.deepEqual(rules(engine.evaluate(createStream(60n))), []);
+});
+
+test('checks recipients against the allowlist and the denylist', async () => {
+    const engine = await engineWith({ recipients: { allow: ['0x000a11ce', '0xb0b'], deny: ['0xb0b'] } });
+
+    assert.deepEqual(rules(engine.evaluate(createStream(1n))), []);
+    assert.deepEqual(rules(engine.evaluate(createStream(1n, {
+        deposits: [{ recipient: '0xe7e', amount: 1n }]
+    }))), ['recipient_not_allowed']);
+    assert.deepEqual(rules(engine.evaluate(createStream(1n, {
+        deposits: [{ recipient: '0xB0B', amount: 1n }]
+    }))), ['recipient_denied']);
+});
+
+test('refuses to close protected streams in any address form', async () => {
+    const streamId = `0x${'ab'.repeat(31)}`;
+    const engine = await engineWith({ closeProtectedStreams: [streamId.toUpperCase().replace('0X', '0x')] });
+    const close = id => ({ toolName: 'close-stream', deposits: [], streamIds: [id] });
+
+    assert.deepEqual(rules(engine.evaluate(close(streamId))), ['close_protected_stream']);
+    assert.deepEqual(rules(engine.evaluate(close(`0x00${'AB'.repeat(31)}`))), ['close_protected_stream']);
+    assert.deepEqual(rules(engine.evaluate(close('0xcafe'))), []);
+    assert.deepEqual(rules(engine.evaluate({ ...close(streamId), toolName: 'pause-stream' })), []);
+});
+
+test('rejects streams outside the allowed duration', async () => {
+    const engine = await engineWith({ streamDuration: { minSeconds: 60, maxSeconds: 3600 } });
+
+    assert.deepEqual(rules(engine.evaluate(createStream(1n, { startTime: 0, stopTime: 600 }))), []);
+    assert.deepEqual(rules(engine.evaluate(createStream(1n, { startTime: 0, stopTime: 30 }))), ['stream_duration']);
+    assert.deepEqual(rules(engine.evaluate(createStream(1n, { startTime: 0, stopTime: 7200 }))), ['stream_duration']);
+});
+
+test('refuses to load an invalid policy', async () => {
+    await assert.rejects(engineWith({ maxDeposit: { perTool: { 'create-stream': 'lots' } } }));
+    await assert.rejects(engineWith({ unknownRule: true }), /Invalid spending policy/);
+});
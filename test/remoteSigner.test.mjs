@@ -0,0 +1,153 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import * as net from 'node:net';
+import {
+    Account,
+    AccountAddress,
+    ChainId,
+    EntryFunction,
+    RawTransaction,
+    SimpleTransaction,
+    TransactionPayloadEntryFunction
+} from '@aptos-labs/ts-sdk';
+import { RemoteSigningService, RemoteSignerError } from '../build/services/RemoteSigningService.js';
+import { ClientProvidedSigningService } from '../build/services/ClientProvidedSigningService.js';
+
+const signers = [];
+
+async function freePort() {
+    const server = net.createServer().listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    const { port } = server.address();
+    await new Promise(resolve => server.close(resolve));
+    return port;
+}
+
+// Runs the stand-in signer from src/localSigner.ts on a free port
+async function startLocalSigner(env = {}) {
+    const account = Account.generate();
+    const port = await freePort();
+    const child = spawn(process.execPath, [new URL('../build/localSigner.js', import.meta.url).pathname], {
+        env: {
+            ...process.env,
+            LOCAL_SIGNER_PORT: String(port),
+            LOCAL_SIGNER_PRIVATE_KEY: account.privateKey.toString(),
+            ...env
+        },
+        stdio: ['ignore', 'ignore', 'pipe']
+    });
+    signers.push(child);
+
+    await new Promise((resolve, reject) => {
+        let output = '';
+        child.stderr.on('data', chunk => {
+            output += chunk;
+            if (output.includes(`http://localhost:${port}`)) {
+                resolve();
+            }
+        });
+        child.once('exit', code => reject(new Error(`local signer exited with ${code}: ${output}`)));
+    });
+
+    return { url: `http://127.0.0.1:${port}`, account };
+}
+
+afterEach(async () => {
+    await Promise.all(signers.splice(0).map(async child => {
+        if (child.exitCode === null) {
+            child.kill();
+            await once(child, 'exit');
+        }
+    }));
+});
+
+function transfer(sender) {
+    return new SimpleTransaction(new RawTransaction(
+        sender,
+        0n,
+        new TransactionPayloadEntryFunction(EntryFunction.build('0x1::aptos_account', 'transfer', [], [])),
+        1000n,
+        100n,
+        9999999999n,
+        new ChainId(4)
+    ));
+}
+
+// Records submissions instead of sending them to a fullnode
+function stubClient() {
+    const submitted = [];
+    return {
+        submitted,
+        getAccountInfo: async () => {
+            throw new Error('the account should not need to be looked up');
+        },
+        transaction: {
+            submit: {
+                simple: async (request) => {
+                    submitted.push(request);
+                    return { hash: `0x${'ab'.repeat(32)}` };
+                }
+            }
+        }
+    };
+}
+
+function remoteSigning(client, config) {
+    return new RemoteSigningService(client, { timeoutMs: 2000, ...config }, new ClientProvidedSigningService(client));
+}
+
+test('submits a transaction signed by the local signer', async () => {
+    const signer = await startLocalSigner();
+    const client = stubClient();
+    const service = remoteSigning(client, { url: signer.url });
+
+    const response = await service.signAndSubmitTransaction(transfer(signer.account.accountAddress), true);
+
+    assert.equal(response.hash, `0x${'ab'.repeat(32)}`);
+    assert.equal(client.submitted.length, 1);
+    assert.equal(
+        client.submitted[0].senderAuthenticator.public_key.toString(),
+        signer.account.publicKey.toString()
+    );
+});
+
+test('rejects a signature from a key other than the reported identity', async () => {
+    const signer = await startLocalSigner();
+    const replacement = await startLocalSigner();
+    const client = stubClient();
+    const config = { url: signer.url, timeoutMs: 2000 };
+    const service = new RemoteSigningService(client, config, new ClientProvidedSigningService(client));
+
+    await service.getIdentity();
+    // The signer now answers with a different key than it reported
+    config.url = replacement.url;
+
+    await assert.rejects(
+        service.signAndSubmitTransaction(transfer(signer.account.accountAddress), true),
+        error => error instanceof RemoteSignerError && /\/public-key/.test(error.message)
+    );
+    assert.equal(client.submitted.length, 0);
+});
+
+test('refuses a transaction from an account other than the signer account', async () => {
+    const signer = await startLocalSigner();
+    const client = stubClient();
+    const service = remoteSigning(client, { url: signer.url });
+
+    await assert.rejects(
+        service.signAndSubmitTransaction(transfer(AccountAddress.from('0x1')), true),
+        RemoteSignerError
+    );
+    assert.equal(client.submitted.length, 0);
+});
+
+test('sends the configured token to the local signer', async () => {
+    const signer = await startLocalSigner({ LOCAL_SIGNER_TOKEN: 'secret' });
+
+    await assert.rejects(remoteSigning(stubClient(), { url: signer.url }).getIdentity(), /responded 401/);
+
+    const identity = await remoteSigning(stubClient(), { url: signer.url, token: 'secret' }).getIdentity();
+    assert.ok(AccountAddress.from(identity.address).equals(signer.account.accountAddress));
+});
@@ -0,0 +1,153 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    AccountAddress,
+    ChainId,
+    EntryFunction,
+    RawTransaction,
+    SimpleTransaction,
+    TransactionPayloadEntryFunction
+} from '@aptos-labs/ts-sdk';
+import {
+    SequenceNumberManager,
+    isSequenceNumberTooNew,
+    isSequenceNumberTooOld,
+    withSequenceNumber
+} from '../build/services/SequenceNumberManager.js';
+
+function transfer(sender = '0xa') {
+    return new SimpleTransaction(new RawTransaction(
+        AccountAddress.from(sender),
+        0n,
+        new TransactionPayloadEntryFunction(EntryFunction.build('0x1::aptos_account', 'transfer', [], [])),
+        1000n,
+        100n,
+        9999999999n,
+        new ChainId(4)
+    ));
+}
+
+// An Aptos client whose on-chain sequence number the test moves by hand
+function chainAt(sequenceNumber) {
+    const chain = {
+        sequenceNumber: BigInt(sequenceNumber),
+        lookups: 0,
+        getAccountInfo: async () => {
+            chain.lookups++;
+            return { sequence_number: chain.sequenceNumber.toString() };
+        }
+    };
+    return chain;
+}
+
+const used = [];
+const record = async transaction => {
+    used.push(transaction.rawTransaction.sequence_number);
+    return transaction.rawTransaction.sequence_number;
+};
+
+const sequenceError = code => Object.assign(new Error(`Transaction rejected: ${code}`), { data: { vm_error_code: code } });
+
+test('recognises sequence number errors from the node', () => {
+    assert.equal(isSequenceNumberTooOld(sequenceError('SEQUENCE_NUMBER_TOO_OLD')), true);
+    assert.equal(isSequenceNumberTooNew({ data: { message: 'SEQUENCE_NUMBER_TOO_NEW' } }), true);
+    assert.equal(isSequenceNumberTooOld(new Error('network down')), false);
+    assert.equal(isSequenceNumberTooNew(undefined), false);
+});
+
+test('re-stamps a transaction with another sequence number', () => {
+    const transaction = transfer();
+
+    const restamped = withSequenceNumber(transaction, 9n);
+
+    assert.equal(restamped.rawTransaction.sequence_number, 9n);
+    assert.equal(restamped.rawTransaction.max_gas_amount, 1000n);
+    assert.equal(withSequenceNumber(transaction, 0n), transaction);
+});
+
+test('gives concurrent submissions consecutive sequence numbers in call order', async () => {
+    used.length = 0;
+    const chain = chainAt(5);
+    const manager = new SequenceNumberManager(chain);
+
+    const results = await Promise.all([1, 2, 3].map(() => manager.submit(transfer(), record)));
+
+    assert.deepEqual(results, [5n, 6n, 7n]);
+    assert.equal(chain.lookups, 1);
+    const [status] = manager.getStatus();
+    assert.equal(status.queueDepth, 0);
+    assert.equal(status.nextSequenceNumber, '8');
+    assert.equal(status.submitted, 3);
+});
+
+test('keeps separate numbers for separate senders', async () => {
+    const manager = new SequenceNumberManager(chainAt(2));
+
+    assert.equal(await manager.submit(transfer('0xa'), record), 2n);
+    assert.equal(await manager.submit(transfer('0xb'), record), 2n);
+    assert.equal(await manager.submit(transfer('0xa'), record), 3n);
+});
+
+test('takes the chain number and retries after a sequence number error', async () => {
+    used.length = 0;
+    const chain = chainAt(5);
+    const manager = new SequenceNumberManager(chain);
+    await manager.submit(transfer(), record);
+
+    // Another client used numbers 6 to 19 meanwhile
+    chain.sequenceNumber = 20n;
+    let rejected = false;
+    const result = await manager.submit(transfer(), async transaction => {
+        if (!rejected) {
+            rejected = true;
+            throw sequenceError('SEQUENCE_NUMBER_TOO_OLD');
+        }
+        return record(transaction);
+    });
+
+    assert.equal(result, 20n);
+    assert.deepEqual(used, [5n, 20n]);
+    assert.equal(manager.getStatus()[0].nextSequenceNumber, '21');
+});
+
+test('gives up after repeated sequence number errors', async () => {
+    const chain = chainAt(5);
+    const manager = new SequenceNumberManager(chain);
+    let attempts = 0;
+
+    await assert.rejects(manager.submit(transfer(), async () => {
+        attempts++;
+        throw sequenceError('SEQUENCE_NUMBER_TOO_NEW');
+    }), /SEQUENCE_NUMBER_TOO_NEW/);
+
+    assert.equal(attempts, 3);
+    assert.equal(manager.getStatus()[0].nextSequenceNumber, null);
+});
+
+test('keeps the local number after a failure that is not a sequence number error', async () => {
+    used.length = 0;
+    const chain = chainAt(5);
+    const manager = new SequenceNumberManager(chain);
+    await manager.submit(transfer(), record);
+    await manager.submit(transfer(), record);
+
+    // The submission of 7 timed out; the chain does not count 5 and 6 yet because they are still pending
+    await assert.rejects(manager.submit(transfer(), async transaction => {
+        used.push(transaction.rawTransaction.sequence_number);
+        throw new Error('request timed out');
+    }), /timed out/);
+    assert.equal(manager.getStatus()[0].lastError, 'request timed out');
+
+    // The chain is re-read, but its lower number does not replace the local one
+    await manager.submit(transfer(), record);
+    assert.equal(chain.lookups, 2);
+
+    // The local number follows the chain once the chain moves past it
+    chain.sequenceNumber = 20n;
+    await assert.rejects(manager.submit(transfer(), async () => {
+        throw new Error('connection reset');
+    }));
+    await manager.submit(transfer(), record);
+
+    assert.deepEqual(used, [5n, 6n, 7n, 7n, 20n]);
+});
@@ -0,0 +1,145 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    AccountAddress,
+    AccountAuthenticatorEd25519,
+    AccountAuthenticatorMultiEd25519,
+    AccountAuthenticatorMultiKey,
+    AccountAuthenticatorSingleKey,
+    ChainId,
+    Ed25519PrivateKey,
+    EntryFunction,
+    RawTransaction,
+    Secp256k1PrivateKey,
+    SimpleTransaction,
+    TransactionPayloadEntryFunction,
+    generateSigningMessageForTransaction
+} from '@aptos-labs/ts-sdk';
+import {
+    SignatureVerificationError,
+    buildAccountAuthenticator,
+    buildAccountPublicKey,
+    normalizeClientSignedData,
+    verifyClientSignature
+} from '../build/services/SignatureAuthenticator.js';
+
+function transfer(sequenceNumber = 0n) {
+    return new SimpleTransaction(new RawTransaction(
+        AccountAddress.from('0x1'),
+        sequenceNumber,
+        new TransactionPayloadEntryFunction(EntryFunction.build('0x1::aptos_account', 'transfer', [], [])),
+        1000n,
+        100n,
+        9999999999n,
+        new ChainId(4)
+    ));
+}
+
+const transaction = transfer();
+const message = generateSigningMessageForTransaction(transaction);
+const otherMessage = generateSigningMessageForTransaction(transfer(1n));
+
+const ed25519Keys = [Ed25519PrivateKey.generate(), Ed25519PrivateKey.generate(), Ed25519PrivateKey.generate()];
+const secp256k1Key = Secp256k1PrivateKey.generate();
+
+// Signatures for each scheme over a signing message, in the submit-signed-transaction shape
+const schemes = {
+    ed25519: signingMessage => ({
+        scheme: 'ed25519',
+        public_key: ed25519Keys[0].publicKey().toString(),
+        signature: ed25519Keys[0].sign(signingMessage).toString()
+    }),
+    single_key: signingMessage => ({
+        scheme: 'single_key',
+        key_type: 'secp256k1',
+        public_key: secp256k1Key.publicKey().toString(),
+        signature: secp256k1Key.sign(signingMessage).toString()
+    }),
+    multi_ed25519: signingMessage => ({
+        scheme: 'multi_ed25519',
+        public_keys: ed25519Keys.map(key => key.publicKey().toString()),
+        threshold: 2,
+        signatures: [
+            { index: 2, signature: ed25519Keys[2].sign(signingMessage).toString() },
+            { index: 0, signature: ed25519Keys[0].sign(signingMessage).toString() }
+        ]
+    }),
+    multi_key: signingMessage => ({
+        scheme: 'multi_key',
+        public_keys: [
+            { key_type: 'ed25519', public_key: ed25519Keys[0].publicKey().toString() },
+            { key_type: 'secp256k1', public_key: secp256k1Key.publicKey().toString() }
+        ],
+        threshold: 2,
+        signatures: [
+            { index: 0, signature: ed25519Keys[0].sign(signingMessage).toString() },
+            { index: 1, signature: secp256k1Key.sign(signingMessage).toString() }
+        ]
+    })
+};
+
+const authenticatorTypes = {
+    ed25519: AccountAuthenticatorEd25519,
+    single_key: AccountAuthenticatorSingleKey,
+    multi_ed25519: AccountAuthenticatorMultiEd25519,
+    multi_key: AccountAuthenticatorMultiKey
+};
+
+for (const [scheme, sign] of Object.entries(schemes)) {
+    test(`builds and verifies a ${scheme} signature`, () => {
+        const signed = normalizeClientSignedData({ ...sign(message), sender: '0x1' });
+
+        const { authenticator, publicKey } = buildAccountAuthenticator(signed);
+
+        assert.ok(authenticator instanceof authenticatorTypes[scheme]);
+        assert.equal(verifyClientSignature(transaction, signed), true);
+        // The key alone describes the same account as the signature
+        assert.equal(buildAccountPublicKey(signed).authKey().toString(), publicKey.authKey().toString());
+    });
+
+    test(`rejects a ${scheme} signature over another transaction`, () => {
+        const signed = normalizeClientSignedData({ ...sign(otherMessage), sender: '0x1' });
+
+        assert.equal(verifyClientSignature(transaction, signed), false);
+    });
+}
+
+test('treats input without a scheme as a legacy Ed25519 signature', () => {
+    const { scheme, ...legacy } = schemes.ed25519(message);
+
+    const signed = normalizeClientSignedData({ ...legacy, sender: '0x1' });
+
+    assert.equal(signed.scheme, 'ed25519');
+    assert.equal(verifyClientSignature(transaction, signed), true);
+});
+
+test('rejects multi-signatures below the threshold', () => {
+    const signed = normalizeClientSignedData({ ...schemes.multi_ed25519(message), sender: '0x1' });
+    signed.signatures = signed.signatures.slice(0, 1);
+
+    assert.equal(verifyClientSignature(transaction, signed), false);
+});
+
+test('rejects duplicate and out of range signature indices', () => {
+    const signed = normalizeClientSignedData({ ...schemes.multi_ed25519(message), sender: '0x1' });
+
+    assert.throws(
+        () => buildAccountAuthenticator({ ...signed, signatures: [signed.signatures[0], signed.signatures[0]] }),
+        /Duplicate signature/
+    );
+    assert.throws(
+        () => buildAccountAuthenticator({ ...signed, signatures: [{ index: 3, signature: signed.signatures[0].signature }] }),
+        /out of range/
+    );
+});
+
+test('reports missing fields and malformed keys', () => {
+    assert.throws(
+        () => normalizeClientSignedData({ scheme: 'multi_key', sender: '0x1', public_keys: [] }),
+        error => error instanceof SignatureVerificationError && /'threshold' is required/.test(error.message)
+    );
+    assert.throws(
+        () => buildAccountAuthenticator({ scheme: 'ed25519', public_key: '0x1234', signature: '0x1234' }),
+        SignatureVerificationError
+    );
+});
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    AccountAddress,
+    ChainId,
+    EntryFunction,
+    RawTransaction,
+    SimpleTransaction,
+    TransactionPayloadEntryFunction
+} from '@aptos-labs/ts-sdk';
+import { SponsorshipBudget, SponsorshipBudgetError, maxGasFeeOctas } from '../build/services/SponsorshipBudget.js';
+import { transactionProxyService } from '../build/services/TransactionProxyService.js';
+
+function transfer(sender, maxGasAmount = 20000n, feePayerAddress) {
+    return new SimpleTransaction(new RawTransaction(
+        AccountAddress.from(sender),
+        0n,
+        new TransactionPayloadEntryFunction(EntryFunction.build('0x1::aptos_account', 'transfer', [], [])),
+        maxGasAmount,
+        100n,
+        9999999999n,
+        new ChainId(4)
+    ), feePayerAddress);
+}
+
+// Each sponsored transfer may cost up to 20000 units × 100 octas
+const FEE = 2000000n;
+
+function budget(limits = {}) {
+    return new SponsorshipBudget({
+        maxPerSenderOctas: 5000000n,
+        dailyBudgetOctas: 100000000n,
+        maxGasAmount: 20000n,
+        ...limits
+    });
+}
+
+test('lowers the max gas amount of a transaction about to be sponsored', () => {
+    const sponsor = AccountAddress.from('0x5');
+    const transaction = transfer('0xa1', 200000n, sponsor);
+
+    const limited = budget().limitGas(transaction);
+
+    assert.equal(limited.rawTransaction.max_gas_amount, 20000n);
+    assert.ok(limited.feePayerAddress.equals(sponsor));
+    assert.equal(maxGasFeeOctas(limited), FEE);
+
+    const small = transfer('0xa1', 5000n);
+    assert.equal(budget().limitGas(small), small);
+});
+
+test('the default SDK max gas amount alone exceeds the per-sender limit', () => {
+    assert.throws(() => budget().check(transfer('0xa2', 200000n)), SponsorshipBudgetError);
+    assert.doesNotThrow(() => budget().check(budget().limitGas(transfer('0xa2', 200000n))));
+});
+
+test('holds reservations against the per-sender limit until they are released', () => {
+    const sponsorship = budget();
+
+    const releaseFirst = sponsorship.reserve('tx_a3_1', transfer('0xa3'));
+    sponsorship.reserve('tx_a3_2', transfer('0xa3'));
+    assert.equal(sponsorship.getUsage('0xa3').senderSpentOctas, 2n * FEE);
+
+    assert.throws(
+        () => sponsorship.reserve('tx_a3_3', transfer('0xa3')),
+        error => error instanceof SponsorshipBudgetError && /per-sender daily limit/.test(error.message)
+    );
+    // Another sender has its own limit
+    assert.doesNotThrow(() => sponsorship.check(transfer('0xa4')));
+
+    releaseFirst();
+    assert.equal(sponsorship.getUsage('0xa3').senderSpentOctas, FEE);
+    assert.doesNotThrow(() => sponsorship.reserve('tx_a3_3', transfer('0xa3')));
+});
+
+test('charges every sender against the total daily budget', () => {
+    const sponsorship = budget({ dailyBudgetOctas: 3n * FEE });
+
+    sponsorship.reserve('tx_a5', transfer('0xa5'));
+    sponsorship.reserve('tx_a6', transfer('0xa6'));
+    sponsorship.reserve('tx_a7', transfer('0xa7'));
+
+    assert.throws(
+        () => sponsorship.check(transfer('0xa8')),
+        error => error instanceof SponsorshipBudgetError && /total daily budget/.test(error.message)
+    );
+});
+
+test('counts sponsored transactions recorded as submitted today', async () => {
+    const sponsorship = budget();
+    for (let index = 0; index < 2; index++) {
+        const record = await transactionProxyService.prepareTransaction(transfer('0xa9'));
+        await transactionProxyService.markSubmitted(record.transactionId, `0x${String(index).repeat(64)}`, {
+            sponsoredFeeOctas: FEE.toString()
+        });
+    }
+    // Transactions that were not sponsored are not charged
+    const unsponsored = await transactionProxyService.prepareTransaction(transfer('0xa9'));
+    await transactionProxyService.markSubmitted(unsponsored.transactionId, `0x${'2'.repeat(64)}`);
+
+    assert.equal(sponsorship.getUsage('0xa9').senderSpentOctas, 2n * FEE);
+    assert.throws(() => sponsorship.check(transfer('0xa9')), SponsorshipBudgetError);
+});
@@ -0,0 +1,39 @@
+import * as http from 'http';
+import * as net from 'net';
+
+// Stand-in fullnode for the failover tests, listening on the loopback interface only.
+// Each request is answered by `respond(request, count)`, which returns
+// { status = 200, headers = {}, body = '{}', delayMs = 0 }; delayMs holds the answer back
+// to simulate a slow node.
+export async function startStandInFullnode(respond = () => ({})) {
+    const requests = [];
+    const server = http.createServer((req, res) => {
+        const request = { method: req.method, path: req.url };
+        requests.push(request);
+        const { status = 200, headers = {}, body = '{}', delayMs = 0 } = respond(request, requests.length) ?? {};
+        setTimeout(() => {
+            if (!res.destroyed) {
+                res.writeHead(status, { 'content-type': 'application/json', ...headers });
+                res.end(body);
+            }
+        }, delayMs);
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    return {
+        url: `http://127.0.0.1:${server.address().port}`,
+        requests,
+        close: () => new Promise(resolve => {
+            server.closeAllConnections();
+            server.close(() => resolve());
+        })
+    };
+}
+
+// URL of a loopback port nothing listens on, so connections to it are refused
+export async function refusedUrl() {
+    const server = net.createServer();
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address();
+    await new Promise(resolve => server.close(() => resolve()));
+    return `http://127.0.0.1:${port}`;
+}
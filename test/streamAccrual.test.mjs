@@ -0,0 +1,122 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    computeStreamBalance,
+    formatScheduleCsv,
+    nextUnlockAfter,
+    projectSchedule,
+    ratePerInterval,
+    vestedAt
+} from '../build/services/StreamAccrual.js';
+
+// 1000 units over ten 100 second intervals
+const terms = {
+    depositAmount: 1000n,
+    cliffAmount: 0n,
+    cliffTime: 0,
+    startTime: 1000,
+    stopTime: 2000,
+    interval: 100
+};
+
+function stream(overrides = {}) {
+    return {
+        streamId: '0x5',
+        name: 'payroll',
+        sender: '0xa',
+        recipient: '0xb',
+        token: '0x1::aptos_coin::AptosCoin',
+        isFa: false,
+        status: 'active',
+        depositAmount: '1000',
+        withdrawnAmount: '300',
+        remainingAmount: '700',
+        cliffAmount: '0',
+        cliffTime: 0,
+        ratePerInterval: '100',
+        interval: 100,
+        startTime: 1000,
+        stopTime: 2000,
+        lastWithdrawTime: 0,
+        paused: false,
+        pausedAt: 0,
+        accPausedTime: 0,
+        ...overrides
+    };
+}
+
+test('vests one interval at a time between the start and stop times', () => {
+    assert.equal(ratePerInterval(terms), 100n);
+    assert.equal(vestedAt(terms, 999), 0n);
+    assert.equal(vestedAt(terms, 1099), 0n);
+    assert.equal(vestedAt(terms, 1150), 100n);
+    assert.equal(vestedAt(terms, 1999), 900n);
+    assert.equal(vestedAt(terms, 5000), 1000n);
+});
+
+test('unlocks the cliff amount together with the intervals elapsed at the cliff', () => {
+    const withCliff = { ...terms, cliffAmount: 200n, cliffTime: 1300 };
+
+    assert.equal(vestedAt(withCliff, 1299), 0n);
+    assert.equal(vestedAt(withCliff, 1300), 440n);
+    assert.equal(nextUnlockAfter(withCliff, 1000), 1300);
+    assert.equal(nextUnlockAfter(withCliff, 1300), 1400);
+});
+
+test('projects every unlock and releases the whole deposit', () => {
+    const uneven = { ...terms, depositAmount: 10n, stopTime: 1300 };
+
+    const { entries, truncated } = projectSchedule(uneven, 100);
+
+    assert.equal(truncated, false);
+    assert.deepEqual(entries, [
+        { time: 1100, amount: '3', cumulative: '3' },
+        { time: 1200, amount: '3', cumulative: '6' },
+        { time: 1300, amount: '4', cumulative: '10' }
+    ]);
+});
+
+test('leaves out intervals whose rounded amount is zero', () => {
+    const small = { ...terms, depositAmount: 2n, stopTime: 1400 };
+
+    assert.deepEqual(projectSchedule(small, 100).entries.map(entry => entry.time), [1200, 1400]);
+});
+
+test('truncates and shifts a projected schedule', () => {
+    const { entries, truncated } = projectSchedule(terms, 3, 1200, 50);
+
+    assert.equal(truncated, true);
+    assert.deepEqual(entries.map(entry => entry.time), [1100, 1200, 1350]);
+    assert.equal(formatScheduleCsv(entries).split('\n')[0], 'timestamp,date,amount,cumulative');
+    assert.equal(formatScheduleCsv(entries).split('\n')[1], `1100,${new Date(1100 * 1000).toISOString()},100,100`);
+});
+
+test('computes what an active stream owes its recipient', () => {
+    const balance = computeStreamBalance(stream(), 1550);
+
+    assert.equal(balance.vestedAmount, '500');
+    assert.equal(balance.withdrawableAmount, '200');
+    assert.equal(balance.lockedAmount, '500');
+    assert.equal(balance.nextUnlockTime, 1600);
+    assert.equal(balance.nextUnlockAmount, '100');
+});
+
+test('stops vesting while a stream is paused and pushes the schedule back after it resumes', () => {
+    const paused = computeStreamBalance(stream({ paused: true, pausedAt: 1400 }), 1550);
+    assert.equal(paused.pausedSeconds, 150);
+    assert.equal(paused.vestedAmount, '400');
+    assert.equal(paused.nextUnlockTime, null);
+
+    const resumed = computeStreamBalance(stream({ accPausedTime: 150 }), 1550);
+    assert.equal(resumed.vestedAmount, '400');
+    assert.equal(resumed.nextUnlockTime, 1650);
+});
+
+test('owes nothing more once a stream is closed', () => {
+    const balance = computeStreamBalance(stream({ status: 'closed' }), 1550);
+
+    assert.equal(balance.vestedAmount, '300');
+    assert.equal(balance.withdrawableAmount, '0');
+    assert.equal(balance.lockedAmount, '0');
+    assert.equal(balance.nextUnlockTime, null);
+});
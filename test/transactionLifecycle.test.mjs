@@ -0,0 +1,124 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    AccountAddress,
+    ChainId,
+    EntryFunction,
+    RawTransaction,
+    SimpleTransaction,
+    TransactionPayloadEntryFunction
+} from '@aptos-labs/ts-sdk';
+import {
+    TRANSACTION_STATES,
+    TransactionLifecycleError,
+    applyTransition,
+    canTransition,
+    isOutstandingState,
+    isTerminalState
+} from '../build/services/TransactionLifecycle.js';
+import { TransactionProxyService } from '../build/services/TransactionProxyService.js';
+import { MemoryPendingTransactionStore } from '../build/services/PendingTransactionStore.js';
+
+function transfer() {
+    return new SimpleTransaction(new RawTransaction(
+        AccountAddress.from('0x1'),
+        0n,
+        new TransactionPayloadEntryFunction(EntryFunction.build('0x1::aptos_account', 'transfer', [], [])),
+        1000n,
+        100n,
+        9999999999n,
+        new ChainId(4)
+    ));
+}
+
+async function proxyService(options = {}) {
+    const service = new TransactionProxyService();
+    await service.useStore(new MemoryPendingTransactionStore(), options);
+    return service;
+}
+
+const HASH = `0x${'ab'.repeat(32)}`;
+
+test('allows only the documented transitions', () => {
+    const allowed = TRANSACTION_STATES.flatMap(from =>
+        TRANSACTION_STATES.filter(to => canTransition(from, to)).map(to => `${from}->${to}`));
+
+    assert.deepEqual(allowed, [
+        'prepared->awaiting_signature',
+        'prepared->submitted',
+        'prepared->expired',
+        'prepared->cancelled',
+        'awaiting_signature->submitted',
+        'awaiting_signature->expired',
+        'awaiting_signature->cancelled',
+        'submitted->committed',
+        'submitted->failed'
+    ]);
+});
+
+test('classifies outstanding and terminal states', () => {
+    assert.deepEqual(TRANSACTION_STATES.filter(isOutstandingState), ['prepared', 'awaiting_signature']);
+    assert.deepEqual(TRANSACTION_STATES.filter(isTerminalState), ['committed', 'failed', 'expired', 'cancelled']);
+});
+
+test('records each transition and refuses disallowed ones', () => {
+    const record = { transactionId: 'tx_1', state: 'prepared', transitions: [] };
+
+    applyTransition(record, 'awaiting_signature');
+    applyTransition(record, 'submitted', 'hash 0x1');
+
+    assert.equal(record.state, 'submitted');
+    assert.deepEqual(record.transitions.map(({ from, to, note }) => ({ from, to, note })), [
+        { from: 'prepared', to: 'awaiting_signature', note: undefined },
+        { from: 'awaiting_signature', to: 'submitted', note: 'hash 0x1' }
+    ]);
+    assert.throws(
+        () => applyTransition(record, 'cancelled'),
+        error => error instanceof TransactionLifecycleError && error.from === 'submitted' && error.to === 'cancelled'
+    );
+    assert.equal(record.state, 'submitted');
+});
+
+test('moves a prepared transaction through signing to its chain result', async () => {
+    const service = await proxyService();
+    const { transactionId } = await service.submitTransaction(transfer(), { toolName: 'create-stream' });
+    assert.equal(service.getTransactionStatus(transactionId).state, 'awaiting_signature');
+    assert.equal(service.getTransactionStatus(transactionId).pendingSignature, true);
+
+    await service.markSubmitted(transactionId, HASH);
+    await service.recordChainResult(transactionId, { type: 'pending_transaction' });
+    assert.equal(service.getTransactionStatus(transactionId).state, 'submitted');
+
+    await service.recordChainResult(transactionId, { type: 'user_transaction', success: false, vm_status: 'Move abort' });
+    const record = service.getTransaction(transactionId);
+    assert.equal(record.state, 'failed');
+    assert.equal(record.vmStatus, 'Move abort');
+    assert.equal(record.hash, HASH);
+    assert.deepEqual(record.transitions.map(transition => transition.to),
+        ['prepared', 'awaiting_signature', 'submitted', 'failed']);
+});
+
+test('expires a transaction that was not signed in time', async () => {
+    const service = await proxyService({ ttlMs: 20 });
+    const { transactionId } = await service.submitTransaction(transfer());
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    assert.equal(service.getTransaction(transactionId).state, 'expired');
+    assert.deepEqual(await service.submitSignedTransaction(transactionId, { hash: HASH }),
+        { success: false, error: 'Transaction not found or expired' });
+});
+
+test('cancels an outstanding transaction but not a submitted one', async () => {
+    const service = await proxyService();
+    const first = await service.submitTransaction(transfer());
+    const second = await service.submitTransaction(transfer());
+
+    await service.cancelTransaction(first.transactionId, 'changed my mind');
+    await service.markSubmitted(second.transactionId, HASH);
+
+    assert.equal(service.getTransaction(first.transactionId).state, 'cancelled');
+    await assert.rejects(service.cancelTransaction(second.transactionId), TransactionLifecycleError);
+    assert.deepEqual(service.listTransactions({ states: ['submitted'] }).map(record => record.transactionId),
+        [second.transactionId]);
+});